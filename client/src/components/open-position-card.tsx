@@ -5,7 +5,7 @@ import { ArrowUpRight, ArrowDownRight, Clock } from "lucide-react";
 import type { OpenPosition } from "@shared/schema";
 
 interface OpenPositionCardProps {
-  position: OpenPosition | null;
+  positions: OpenPosition[];
   className?: string;
 }
 
@@ -15,81 +15,106 @@ function formatDuration(seconds: number): string {
   return `${mins}m ${secs}s`;
 }
 
-export function OpenPositionCard({ position, className }: OpenPositionCardProps) {
-  if (!position) {
+function PositionRow({ position }: { position: OpenPosition }) {
+  const isProfit = position.unrealizedPnlUsdt >= 0;
+
+  return (
+    <div className="grid grid-cols-2 gap-4 md:grid-cols-5" data-testid={`position-${position.symbol}`}>
+      <div className="space-y-1">
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          Symbol
+        </span>
+        <p className="flex items-center gap-2 text-lg font-semibold" data-testid="position-symbol">
+          {position.symbol}
+          <Badge
+            variant={position.side === "LONG" ? "default" : "secondary"}
+            data-testid="position-side"
+          >
+            {position.side}
+          </Badge>
+        </p>
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          Entry Price
+        </span>
+        <p className="text-lg font-semibold" data-testid="position-entry">
+          ${position.entryPrice.toLocaleString()}
+        </p>
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          Notional
+        </span>
+        <p className="text-lg font-semibold" data-testid="position-notional">
+          ${position.notionalUsdt.toFixed(2)}
+        </p>
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          Unrealized PnL
+        </span>
+        <p
+          className={cn(
+            "flex items-center text-lg font-semibold",
+            isProfit ? "text-success" : "text-destructive"
+          )}
+          data-testid="position-pnl"
+        >
+          {isProfit ? (
+            <ArrowUpRight className="mr-1 h-4 w-4" />
+          ) : (
+            <ArrowDownRight className="mr-1 h-4 w-4" />
+          )}
+          ${Math.abs(position.unrealizedPnlUsdt).toFixed(2)} (
+          {(position.unrealizedPnlPct * 100).toFixed(2)}%)
+        </p>
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          Time in Trade
+        </span>
+        <p
+          className="flex items-center text-lg font-semibold"
+          data-testid="position-time"
+        >
+          <Clock className="mr-1 h-4 w-4 text-muted-foreground" />
+          {formatDuration(position.timeInTrade)}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export function OpenPositionCard({ positions, className }: OpenPositionCardProps) {
+  if (positions.length === 0) {
     return (
       <Card className={cn("border-dashed", className)}>
         <CardContent className="flex items-center justify-center p-6">
-          <p className="text-sm text-muted-foreground">No open position</p>
+          <p className="text-sm text-muted-foreground">No open positions</p>
         </CardContent>
       </Card>
     );
   }
 
-  const isProfit = position.unrealizedPnlUsdt >= 0;
+  const totalNotional = positions.reduce((sum, p) => sum + p.notionalUsdt, 0);
 
   return (
     <Card className={className}>
       <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
-        <CardTitle className="text-lg font-semibold">Open Position</CardTitle>
-        <Badge
-          variant={position.side === "LONG" ? "default" : "secondary"}
-          data-testid="position-side"
-        >
-          {position.side}
+        <CardTitle className="text-lg font-semibold">
+          Open Positions ({positions.length})
+        </CardTitle>
+        <Badge variant="outline" data-testid="positions-total-notional">
+          ${totalNotional.toFixed(2)} notional
         </Badge>
       </CardHeader>
-      <CardContent className="space-y-4">
-        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
-          <div className="space-y-1">
-            <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
-              Symbol
-            </span>
-            <p className="text-lg font-semibold" data-testid="position-symbol">
-              {position.symbol}
-            </p>
-          </div>
-          <div className="space-y-1">
-            <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
-              Entry Price
-            </span>
-            <p className="text-lg font-semibold" data-testid="position-entry">
-              ${position.entryPrice.toLocaleString()}
-            </p>
-          </div>
-          <div className="space-y-1">
-            <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
-              Unrealized PnL
-            </span>
-            <p
-              className={cn(
-                "flex items-center text-lg font-semibold",
-                isProfit ? "text-success" : "text-destructive"
-              )}
-              data-testid="position-pnl"
-            >
-              {isProfit ? (
-                <ArrowUpRight className="mr-1 h-4 w-4" />
-              ) : (
-                <ArrowDownRight className="mr-1 h-4 w-4" />
-              )}
-              ${Math.abs(position.unrealizedPnlUsdt).toFixed(2)} (
-              {(position.unrealizedPnlPct * 100).toFixed(2)}%)
-            </p>
-          </div>
-          <div className="space-y-1">
-            <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
-              Time in Trade
-            </span>
-            <p
-              className="flex items-center text-lg font-semibold"
-              data-testid="position-time"
-            >
-              <Clock className="mr-1 h-4 w-4 text-muted-foreground" />
-              {formatDuration(position.timeInTrade)}
-            </p>
+      <CardContent className="divide-y">
+        {positions.map((position) => (
+          <div key={position.id} className="py-3 first:pt-0 last:pb-0">
+            <PositionRow position={position} />
           </div>
-        </div>
+        ))}
       </CardContent>
     </Card>
   );
@@ -10,11 +10,47 @@ import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
-import { Save, RotateCcw, Settings2, Shield, Zap, ToggleLeft } from "lucide-react";
-import type { Config } from "@shared/schema";
+import { Save, RotateCcw, Settings2, Shield, Zap, ToggleLeft, AlertTriangle, Coins, Scale } from "lucide-react";
+import {
+  criterionWeightsSchema,
+  symbolSettingSchema,
+  TrailModeEnum,
+  VolModeEnum,
+  TradingDayTimezoneEnum,
+  ReconcilePolicyEnum,
+  EntryModeEnum,
+  DEFAULT_SYMBOL_SETTINGS,
+  DEFAULT_CRITERION_WEIGHTS,
+  CriterionKeyEnum,
+  type BotState,
+  type Config,
+  type CriterionKey,
+  type CriterionWeight,
+  type SymbolSetting,
+  type TrailMode,
+  type TradingDayTimezone,
+  type ReconcilePolicy,
+  type EntryMode,
+  type VolMode,
+} from "@shared/schema";
 
 const configFormSchema = z.object({
   leverage: z.number().min(1).max(3),
@@ -22,17 +58,98 @@ const configFormSchema = z.object({
   daily_max_loss_pct: z.number().min(0.005).max(0.05),
   max_trades_per_day: z.number().min(1).max(20),
   max_consecutive_losses: z.number().min(1).max(10),
+  pause_after_consecutive_losses_minutes: z.number().int().min(15).max(1440),
+  trading_day_timezone: TradingDayTimezoneEnum,
+  reconcile_policy: ReconcilePolicyEnum,
+  reconcile_interval_seconds: z.number().int().min(10).max(600),
+  max_concurrent_positions: z.number().int().min(1).max(5),
+  max_total_notional_pct: z.number().min(0.5).max(5),
+  max_total_margin_pct: z.number().min(0.1).max(1),
+  max_margin_per_trade_pct: z.number().min(0.05).max(1),
+  max_correlated_positions: z.number().int().min(1).max(3),
   tp_pct: z.number().min(0.0025).max(0.0045),
   sl_pct: z.number().min(0.0035).max(0.0050),
   time_stop_seconds: z.number().min(120).max(180),
+  entry_mode: EntryModeEnum,
+  entry_offset_bps: z.number().min(0).max(20),
+  entry_fill_timeout_ms: z.number().int().min(100).max(5000),
+  use_market_if_not_filled: z.boolean(),
+  paper_maker_fee_pct: z.number().min(0).max(0.002),
+  paper_taker_fee_pct: z.number().min(0).max(0.002),
   liq_window_seconds: z.number().min(30).max(120),
   volume_mult: z.number().min(1.5).max(5),
   exhaustion_candles: z.number().min(1).max(5),
   symbol_cooldown_seconds: z.number().min(60).max(600),
+  depth_within_bps: z.number().int().min(5).max(50),
+  min_depth_usd: z.number().min(0).max(20000000),
+  min_book_imbalance: z.number().min(-0.5).max(0.5),
+  max_funding_rate: z.number().min(0.0001).max(0.003),
+  min_oi_drop_pct: z.number().min(0).max(0.02),
+  funding_buffer_seconds: z.number().int().min(0).max(1800),
+  momentum_tp_pct: z.number().min(0.0025).max(0.01),
+  momentum_sl_pct: z.number().min(0.002).max(0.006),
+  momentum_time_stop_seconds: z.number().min(60).max(300),
+  breakeven_enabled: z.boolean(),
+  breakeven_trigger_pct: z.number().min(0.001).max(0.005),
+  trail_mode: TrailModeEnum,
+  trail_trigger_pct: z.number().min(0.001).max(0.006),
+  trail_pct: z.number().min(0.001).max(0.005),
+  trail_atr_mult: z.number().min(0.5).max(4),
+  scale_out_enabled: z.boolean(),
+  tp1_pct: z.number().min(0.001).max(0.004),
+  tp1_close_pct: z.number().min(0.25).max(0.75),
+  vol_mode: VolModeEnum,
+  vol_stop_mult: z.number().min(1).max(6),
+  vol_sl_floor_pct: z.number().min(0.001).max(0.005),
+  vol_sl_cap_pct: z.number().min(0.005).max(0.02),
   enable_sol: z.boolean(),
   enable_momentum_variant: z.boolean(),
+  enable_book_filter: z.boolean(),
+  enable_positioning_filter: z.boolean(),
+  scoring_enabled: z.boolean(),
+  score_threshold: z.number().min(0.3).max(1),
+  score_size_scaling: z.boolean(),
+  criterion_weights: criterionWeightsSchema,
+  symbol_settings: z.array(symbolSettingSchema).refine((settings) => settings.some((s) => s.enabled), {
+    message: "At least one symbol must be enabled",
+  }),
+}).refine((values) => !values.scale_out_enabled || values.tp1_pct < values.tp_pct, {
+  message: "TP1 must be below the final take profit",
+  path: ["tp1_pct"],
+}).refine((values) => values.vol_sl_floor_pct < values.vol_sl_cap_pct, {
+  message: "Volatility stop floor must be below the cap",
+  path: ["vol_sl_floor_pct"],
+}).refine((values) => Object.values(values.criterion_weights).some((w) => w.weight > 0), {
+  message: "At least one criterion needs a weight",
+  path: ["criterion_weights"],
 });
 
+const criterionLabels: Record<CriterionKey, string> = {
+  liq_size: "Liquidation size",
+  volume: "Volume spike",
+  spread: "Spread",
+  momentum: "Momentum faded",
+  exhaustion: "Exhaustion (momentum: not exhausted)",
+  breakout: "Breakout (momentum only)",
+  depth: "Book depth",
+  imbalance: "Book imbalance",
+  funding: "Funding",
+  funding_time: "Funding settlement",
+  oi_drop: "Open interest drop",
+};
+
+const entryModeLabels: Record<EntryMode, string> = {
+  MARKET: "Market",
+  IOC: "Limit IOC",
+  POST_ONLY: "Post-only",
+};
+
+const reconcilePolicyLabels: Record<ReconcilePolicy, string> = {
+  ALERT: "Alert and block symbol",
+  ADOPT: "Adopt exchange state",
+  CLOSE: "Close out of sync",
+};
+
 type ConfigFormValues = z.infer<typeof configFormSchema>;
 
 function ConfigSkeleton() {
@@ -108,6 +225,30 @@ function SliderField({
   );
 }
 
+interface NumberCellProps {
+  value: number | null;
+  onChange: (value: number | null) => void;
+  // Display multiplier, e.g. 100 to edit fractions as percentages
+  scale?: number;
+  step?: number;
+  placeholder?: string;
+  testId: string;
+}
+
+function NumberCell({ value, onChange, scale = 1, step, placeholder, testId }: NumberCellProps) {
+  return (
+    <Input
+      type="number"
+      className="h-8 w-24"
+      step={step}
+      placeholder={placeholder}
+      value={value === null ? "" : Number((value * scale).toFixed(6))}
+      onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value) / scale)}
+      data-testid={testId}
+    />
+  );
+}
+
 export default function ConfigPage() {
   const { toast } = useToast();
 
@@ -115,6 +256,14 @@ export default function ConfigPage() {
     queryKey: ["/api/config/current"],
   });
 
+  const { data: botState } = useQuery<BotState>({
+    queryKey: ["/api/state"],
+    refetchInterval: 5000,
+  });
+
+  const runningVersion = botState?.runningConfigVersion ?? null;
+  const versionMismatch = !!config && runningVersion !== null && runningVersion !== config.version;
+
   const form = useForm<ConfigFormValues>({
     resolver: zodResolver(configFormSchema),
     defaultValues: {
@@ -123,15 +272,59 @@ export default function ConfigPage() {
       daily_max_loss_pct: 0.015,
       max_trades_per_day: 10,
       max_consecutive_losses: 3,
+      pause_after_consecutive_losses_minutes: 60,
+      trading_day_timezone: "UTC",
+      reconcile_policy: "ALERT",
+      reconcile_interval_seconds: 30,
+      max_concurrent_positions: 2,
+      max_total_notional_pct: 1.5,
+      max_total_margin_pct: 0.6,
+      max_margin_per_trade_pct: 0.2,
+      max_correlated_positions: 1,
       tp_pct: 0.0035,
       sl_pct: 0.0045,
       time_stop_seconds: 150,
+      entry_mode: "MARKET",
+      entry_offset_bps: 2,
+      entry_fill_timeout_ms: 800,
+      use_market_if_not_filled: true,
+      paper_maker_fee_pct: 0.0002,
+      paper_taker_fee_pct: 0.0005,
       liq_window_seconds: 60,
       volume_mult: 2.0,
       exhaustion_candles: 2,
       symbol_cooldown_seconds: 300,
+      depth_within_bps: 10,
+      min_depth_usd: 250000,
+      min_book_imbalance: 0,
+      max_funding_rate: 0.0005,
+      min_oi_drop_pct: 0.002,
+      funding_buffer_seconds: 300,
+      momentum_tp_pct: 0.005,
+      momentum_sl_pct: 0.003,
+      momentum_time_stop_seconds: 120,
+      breakeven_enabled: false,
+      breakeven_trigger_pct: 0.002,
+      trail_mode: "OFF",
+      trail_trigger_pct: 0.0025,
+      trail_pct: 0.002,
+      trail_atr_mult: 1.5,
+      scale_out_enabled: false,
+      tp1_pct: 0.0025,
+      tp1_close_pct: 0.5,
+      vol_mode: "OFF",
+      vol_stop_mult: 3,
+      vol_sl_floor_pct: 0.002,
+      vol_sl_cap_pct: 0.01,
       enable_sol: false,
       enable_momentum_variant: false,
+      enable_book_filter: false,
+      enable_positioning_filter: false,
+      scoring_enabled: false,
+      score_threshold: 0.7,
+      score_size_scaling: false,
+      criterion_weights: DEFAULT_CRITERION_WEIGHTS,
+      symbol_settings: DEFAULT_SYMBOL_SETTINGS,
     },
     values: config ? {
       leverage: config.leverage,
@@ -139,15 +332,59 @@ export default function ConfigPage() {
       daily_max_loss_pct: config.risk.daily_max_loss_pct,
       max_trades_per_day: config.risk.max_trades_per_day,
       max_consecutive_losses: config.risk.max_consecutive_losses,
+      pause_after_consecutive_losses_minutes: config.risk.pause_after_consecutive_losses_minutes,
+      trading_day_timezone: config.risk.trading_day_timezone,
+      reconcile_policy: config.risk.reconcile_policy,
+      reconcile_interval_seconds: config.risk.reconcile_interval_seconds,
+      max_concurrent_positions: config.risk.max_concurrent_positions,
+      max_total_notional_pct: config.risk.max_total_notional_pct,
+      max_total_margin_pct: config.risk.max_total_margin_pct,
+      max_margin_per_trade_pct: config.risk.max_margin_per_trade_pct,
+      max_correlated_positions: config.risk.max_correlated_positions,
       tp_pct: config.execution.tp_pct,
       sl_pct: config.execution.sl_pct,
       time_stop_seconds: config.execution.time_stop_seconds,
+      entry_mode: config.execution.entry_mode,
+      entry_offset_bps: config.execution.entry_offset_bps,
+      entry_fill_timeout_ms: config.execution.entry_fill_timeout_ms,
+      use_market_if_not_filled: config.execution.use_market_if_not_filled,
+      paper_maker_fee_pct: config.execution.paper_maker_fee_pct,
+      paper_taker_fee_pct: config.execution.paper_taker_fee_pct,
       liq_window_seconds: config.signal.liq_window_seconds,
       volume_mult: config.signal.volume_mult,
       exhaustion_candles: config.signal.exhaustion_candles,
       symbol_cooldown_seconds: config.signal.symbol_cooldown_seconds,
+      depth_within_bps: config.signal.depth_within_bps,
+      min_depth_usd: config.signal.min_depth_usd,
+      min_book_imbalance: config.signal.min_book_imbalance,
+      max_funding_rate: config.signal.max_funding_rate,
+      min_oi_drop_pct: config.signal.min_oi_drop_pct,
+      funding_buffer_seconds: config.signal.funding_buffer_seconds,
+      momentum_tp_pct: config.execution.momentum_tp_pct,
+      momentum_sl_pct: config.execution.momentum_sl_pct,
+      momentum_time_stop_seconds: config.execution.momentum_time_stop_seconds,
+      breakeven_enabled: config.execution.breakeven_enabled,
+      breakeven_trigger_pct: config.execution.breakeven_trigger_pct,
+      trail_mode: config.execution.trail_mode,
+      trail_trigger_pct: config.execution.trail_trigger_pct,
+      trail_pct: config.execution.trail_pct,
+      trail_atr_mult: config.execution.trail_atr_mult,
+      scale_out_enabled: config.execution.scale_out_enabled,
+      tp1_pct: config.execution.tp1_pct,
+      tp1_close_pct: config.execution.tp1_close_pct,
+      vol_mode: config.execution.vol_mode,
+      vol_stop_mult: config.execution.vol_stop_mult,
+      vol_sl_floor_pct: config.execution.vol_sl_floor_pct,
+      vol_sl_cap_pct: config.execution.vol_sl_cap_pct,
       enable_sol: config.feature_flags.enable_sol,
       enable_momentum_variant: config.feature_flags.enable_momentum_variant,
+      enable_book_filter: config.feature_flags.enable_book_filter,
+      enable_positioning_filter: config.feature_flags.enable_positioning_filter,
+      scoring_enabled: config.scoring.enabled,
+      score_threshold: config.scoring.threshold,
+      score_size_scaling: config.scoring.scale_size,
+      criterion_weights: config.scoring.weights,
+      symbol_settings: config.symbol_settings,
     } : undefined,
   });
 
@@ -157,9 +394,10 @@ export default function ConfigPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/config/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/state"] });
       toast({
         title: "Configuration saved",
-        description: "Your changes have been published successfully.",
+        description: "The bot will apply the new version within a few seconds.",
       });
     },
     onError: () => {
@@ -171,6 +409,28 @@ export default function ConfigPage() {
     },
   });
 
+  const symbolSettings = form.watch("symbol_settings");
+
+  const updateSymbol = (index: number, patch: Partial<SymbolSetting>) => {
+    const current = form.getValues("symbol_settings");
+    form.setValue(
+      "symbol_settings",
+      current.map((setting, i) => (i === index ? { ...setting, ...patch } : setting)),
+      { shouldDirty: true }
+    );
+  };
+
+  const criterionWeights = form.watch("criterion_weights");
+
+  const updateWeight = (key: CriterionKey, patch: Partial<CriterionWeight>) => {
+    const current = form.getValues("criterion_weights");
+    form.setValue(
+      "criterion_weights",
+      { ...current, [key]: { ...current[key], ...patch } },
+      { shouldDirty: true }
+    );
+  };
+
   const onSubmit = (values: ConfigFormValues) => {
     publishMutation.mutate(values);
   };
@@ -200,6 +460,11 @@ export default function ConfigPage() {
           {config && (
             <Badge variant="outline">v{config.version}</Badge>
           )}
+          {runningVersion !== null && (
+            <Badge variant={versionMismatch ? "destructive" : "secondary"} data-testid="badge-running-version">
+              Bot running v{runningVersion}
+            </Badge>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <Button
@@ -222,6 +487,23 @@ export default function ConfigPage() {
         </div>
       </div>
 
+      {versionMismatch && (
+        <Card className="border-warning/50 bg-warning/5" data-testid="card-version-mismatch">
+          <CardContent className="flex items-start gap-3 p-4">
+            <AlertTriangle className="h-5 w-5 text-warning mt-0.5" />
+            <div className="flex-1">
+              <p className="font-medium">
+                Published v{config?.version} is not running yet
+              </p>
+              <p className="text-sm text-muted-foreground">
+                The bot is still on v{runningVersion}. New versions apply within a few seconds: open
+                positions keep the TP/SL and time stop they were entered with. Symbol changes need a bot restart.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <form className="grid gap-6 lg:grid-cols-2">
         <Card>
           <CardHeader>
@@ -288,6 +570,122 @@ export default function ConfigPage() {
                 />
               </div>
             </div>
+            <SliderField
+              label="Loss Streak Pause"
+              value={form.watch("pause_after_consecutive_losses_minutes")}
+              min={15}
+              max={1440}
+              step={15}
+              unit="min"
+              onChange={(v) => form.setValue("pause_after_consecutive_losses_minutes", v, { shouldDirty: true })}
+              testId="slider-loss-streak-pause"
+            />
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label>Trading Day Timezone</Label>
+                <p className="text-sm text-muted-foreground">
+                  Daily limits and metrics reset at local midnight
+                </p>
+              </div>
+              <Select
+                value={form.watch("trading_day_timezone")}
+                onValueChange={(v) => form.setValue("trading_day_timezone", v as TradingDayTimezone, { shouldDirty: true })}
+              >
+                <SelectTrigger className="w-48" data-testid="select-trading-day-timezone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TradingDayTimezoneEnum.options.map((tz) => (
+                    <SelectItem key={tz} value={tz}>{tz}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label>Reconciliation Policy</Label>
+                <p className="text-sm text-muted-foreground">
+                  When DB, bot and exchange positions disagree
+                </p>
+              </div>
+              <Select
+                value={form.watch("reconcile_policy")}
+                onValueChange={(v) => form.setValue("reconcile_policy", v as ReconcilePolicy, { shouldDirty: true })}
+              >
+                <SelectTrigger className="w-48" data-testid="select-reconcile-policy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ReconcilePolicyEnum.options.map((policy) => (
+                    <SelectItem key={policy} value={policy}>{reconcilePolicyLabels[policy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <SliderField
+              label="Reconciliation Interval"
+              value={form.watch("reconcile_interval_seconds")}
+              min={10}
+              max={600}
+              step={10}
+              unit="s"
+              onChange={(v) => form.setValue("reconcile_interval_seconds", v, { shouldDirty: true })}
+              testId="slider-reconcile-interval"
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Max Open Positions</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={5}
+                  {...form.register("max_concurrent_positions", { valueAsNumber: true })}
+                  data-testid="input-max-positions"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Max BTC/ETH Same Side</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={3}
+                  {...form.register("max_correlated_positions", { valueAsNumber: true })}
+                  data-testid="input-max-correlated"
+                />
+              </div>
+            </div>
+            <SliderField
+              label="Total Notional Cap"
+              value={form.watch("max_total_notional_pct")}
+              min={0.5}
+              max={5}
+              step={0.25}
+              unit="x equity"
+              onChange={(v) => form.setValue("max_total_notional_pct", v, { shouldDirty: true })}
+              testId="slider-max-total-notional"
+            />
+            <SliderField
+              label="Total Margin Cap"
+              value={form.watch("max_total_margin_pct")}
+              min={0.1}
+              max={1}
+              step={0.05}
+              unit="%"
+              multiplier={100}
+              onChange={(v) => form.setValue("max_total_margin_pct", v, { shouldDirty: true })}
+              testId="slider-max-total-margin"
+            />
+            <SliderField
+              label="Margin per Trade Cap"
+              value={form.watch("max_margin_per_trade_pct")}
+              min={0.05}
+              max={1}
+              step={0.05}
+              unit="%"
+              multiplier={100}
+              onChange={(v) => form.setValue("max_margin_per_trade_pct", v, { shouldDirty: true })}
+              testId="slider-max-margin-per-trade"
+            />
           </CardContent>
         </Card>
 
@@ -334,6 +732,307 @@ export default function ConfigPage() {
               onChange={(v) => form.setValue("time_stop_seconds", v, { shouldDirty: true })}
               testId="slider-time-stop"
             />
+            <div className="space-y-6 border-t pt-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Entry Mode</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {form.watch("entry_mode") === "MARKET"
+                      ? "Enter with a market order"
+                      : form.watch("entry_mode") === "IOC"
+                        ? "Limit at the touch plus the offset; the unfilled part is cancelled"
+                        : "Rest a maker order behind the touch until the fill timeout"}
+                  </p>
+                </div>
+                <Select
+                  value={form.watch("entry_mode")}
+                  onValueChange={(v) => form.setValue("entry_mode", v as EntryMode, { shouldDirty: true })}
+                >
+                  <SelectTrigger className="w-32" data-testid="select-entry-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EntryModeEnum.options.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {entryModeLabels[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.watch("entry_mode") !== "MARKET" && (
+                <>
+                  <SliderField
+                    label="Limit Offset"
+                    value={form.watch("entry_offset_bps")}
+                    min={0}
+                    max={20}
+                    step={1}
+                    unit=" bps"
+                    onChange={(v) => form.setValue("entry_offset_bps", v, { shouldDirty: true })}
+                    testId="slider-entry-offset"
+                  />
+                  {form.watch("entry_mode") === "POST_ONLY" && (
+                    <SliderField
+                      label="Fill Timeout"
+                      value={form.watch("entry_fill_timeout_ms")}
+                      min={100}
+                      max={5000}
+                      step={100}
+                      unit="ms"
+                      onChange={(v) => form.setValue("entry_fill_timeout_ms", v, { shouldDirty: true })}
+                      testId="slider-entry-timeout"
+                    />
+                  )}
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Market Fallback</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Send the unfilled remainder as a market order
+                      </p>
+                    </div>
+                    <Switch
+                      checked={form.watch("use_market_if_not_filled")}
+                      onCheckedChange={(checked) =>
+                        form.setValue("use_market_if_not_filled", checked, { shouldDirty: true })
+                      }
+                      data-testid="switch-market-fallback"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="space-y-6 border-t pt-6">
+              <div className="space-y-0.5">
+                <Label>Paper Fees</Label>
+                <p className="text-sm text-muted-foreground">
+                  Commission charged on simulated fills; post-only entries pay maker, everything else taker
+                </p>
+              </div>
+              <SliderField
+                label="Maker Fee"
+                value={form.watch("paper_maker_fee_pct")}
+                min={0}
+                max={0.002}
+                step={0.0001}
+                unit="%"
+                multiplier={100}
+                onChange={(v) => form.setValue("paper_maker_fee_pct", v, { shouldDirty: true })}
+                testId="slider-paper-maker-fee"
+              />
+              <SliderField
+                label="Taker Fee"
+                value={form.watch("paper_taker_fee_pct")}
+                min={0}
+                max={0.002}
+                step={0.0001}
+                unit="%"
+                multiplier={100}
+                onChange={(v) => form.setValue("paper_taker_fee_pct", v, { shouldDirty: true })}
+                testId="slider-paper-taker-fee"
+              />
+            </div>
+            <div className="space-y-6 border-t pt-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Volatility Stops</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Set the stop from 1m volatility; TP keeps the TP/SL ratio and size follows the stop
+                  </p>
+                </div>
+                <Select
+                  value={form.watch("vol_mode")}
+                  onValueChange={(v) => form.setValue("vol_mode", v as VolMode, { shouldDirty: true })}
+                >
+                  <SelectTrigger className="w-32" data-testid="select-vol-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="OFF">Off</SelectItem>
+                    <SelectItem value="ATR">ATR</SelectItem>
+                    <SelectItem value="REALIZED">Realized vol</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.watch("vol_mode") !== "OFF" && (
+                <>
+                  <SliderField
+                    label="Stop Distance"
+                    value={form.watch("vol_stop_mult")}
+                    min={1}
+                    max={6}
+                    step={0.5}
+                    unit={form.watch("vol_mode") === "ATR" ? "x ATR" : "x vol"}
+                    onChange={(v) => form.setValue("vol_stop_mult", v, { shouldDirty: true })}
+                    testId="slider-vol-mult"
+                  />
+                  <SliderField
+                    label="Stop Floor"
+                    value={form.watch("vol_sl_floor_pct")}
+                    min={0.001}
+                    max={0.005}
+                    step={0.0005}
+                    unit="%"
+                    multiplier={100}
+                    onChange={(v) => form.setValue("vol_sl_floor_pct", v, { shouldDirty: true, shouldValidate: true })}
+                    testId="slider-vol-floor"
+                  />
+                  <SliderField
+                    label="Stop Cap"
+                    value={form.watch("vol_sl_cap_pct")}
+                    min={0.005}
+                    max={0.02}
+                    step={0.001}
+                    unit="%"
+                    multiplier={100}
+                    onChange={(v) => form.setValue("vol_sl_cap_pct", v, { shouldDirty: true, shouldValidate: true })}
+                    testId="slider-vol-cap"
+                  />
+                  {form.formState.errors.vol_sl_floor_pct && (
+                    <p className="text-sm text-destructive" data-testid="text-vol-error">
+                      {form.formState.errors.vol_sl_floor_pct.message}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+            <div className="space-y-6 border-t pt-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Break-even Stop</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Move the stop to entry once in profit
+                  </p>
+                </div>
+                <Switch
+                  checked={form.watch("breakeven_enabled")}
+                  onCheckedChange={(checked) =>
+                    form.setValue("breakeven_enabled", checked, { shouldDirty: true })
+                  }
+                  data-testid="switch-breakeven"
+                />
+              </div>
+              {form.watch("breakeven_enabled") && (
+                <SliderField
+                  label="Break-even Trigger"
+                  value={form.watch("breakeven_trigger_pct")}
+                  min={0.001}
+                  max={0.005}
+                  step={0.0005}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("breakeven_trigger_pct", v, { shouldDirty: true })}
+                  testId="slider-breakeven-trigger"
+                />
+              )}
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Trailing Stop</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Ratchet the stop behind the best price
+                  </p>
+                </div>
+                <Select
+                  value={form.watch("trail_mode")}
+                  onValueChange={(v) => form.setValue("trail_mode", v as TrailMode, { shouldDirty: true })}
+                >
+                  <SelectTrigger className="w-32" data-testid="select-trail-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="OFF">Off</SelectItem>
+                    <SelectItem value="PCT">Percent</SelectItem>
+                    <SelectItem value="ATR">ATR</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.watch("trail_mode") !== "OFF" && (
+                <SliderField
+                  label="Trail Trigger"
+                  value={form.watch("trail_trigger_pct")}
+                  min={0.001}
+                  max={0.006}
+                  step={0.0005}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("trail_trigger_pct", v, { shouldDirty: true })}
+                  testId="slider-trail-trigger"
+                />
+              )}
+              {form.watch("trail_mode") === "PCT" && (
+                <SliderField
+                  label="Trail Distance"
+                  value={form.watch("trail_pct")}
+                  min={0.001}
+                  max={0.005}
+                  step={0.0005}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("trail_pct", v, { shouldDirty: true })}
+                  testId="slider-trail-pct"
+                />
+              )}
+              {form.watch("trail_mode") === "ATR" && (
+                <SliderField
+                  label="Trail Distance"
+                  value={form.watch("trail_atr_mult")}
+                  min={0.5}
+                  max={4}
+                  step={0.25}
+                  unit="x ATR"
+                  onChange={(v) => form.setValue("trail_atr_mult", v, { shouldDirty: true })}
+                  testId="slider-trail-atr"
+                />
+              )}
+            </div>
+            <div className="space-y-6 border-t pt-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Scale Out</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Take part of the position off at TP1, the rest at TP or the stop
+                  </p>
+                </div>
+                <Switch
+                  checked={form.watch("scale_out_enabled")}
+                  onCheckedChange={(checked) =>
+                    form.setValue("scale_out_enabled", checked, { shouldDirty: true, shouldValidate: true })
+                  }
+                  data-testid="switch-scale-out"
+                />
+              </div>
+              {form.watch("scale_out_enabled") && (
+                <>
+                  <SliderField
+                    label="TP1"
+                    value={form.watch("tp1_pct")}
+                    min={0.001}
+                    max={0.004}
+                    step={0.0005}
+                    unit="%"
+                    multiplier={100}
+                    onChange={(v) => form.setValue("tp1_pct", v, { shouldDirty: true, shouldValidate: true })}
+                    testId="slider-tp1"
+                  />
+                  <SliderField
+                    label="Close at TP1"
+                    value={form.watch("tp1_close_pct")}
+                    min={0.25}
+                    max={0.75}
+                    step={0.05}
+                    unit="%"
+                    multiplier={100}
+                    onChange={(v) => form.setValue("tp1_close_pct", v, { shouldDirty: true })}
+                    testId="slider-tp1-close"
+                  />
+                  {form.formState.errors.tp1_pct && (
+                    <p className="text-sm text-destructive" data-testid="text-tp1-error">
+                      {form.formState.errors.tp1_pct.message}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
           </CardContent>
         </Card>
 
@@ -420,7 +1119,7 @@ export default function ConfigPage() {
               <div className="space-y-0.5">
                 <Label>Momentum Variant</Label>
                 <p className="text-sm text-muted-foreground">
-                  Use momentum-based entry signals
+                  Trade with cascades that fail to exhaust and break their extreme
                 </p>
               </div>
               <Switch
@@ -431,6 +1130,343 @@ export default function ConfigPage() {
                 data-testid="switch-enable-momentum"
               />
             </div>
+            {form.watch("enable_momentum_variant") && (
+              <div className="space-y-6 border-t pt-6">
+                <SliderField
+                  label="Momentum Take Profit"
+                  value={form.watch("momentum_tp_pct")}
+                  min={0.0025}
+                  max={0.01}
+                  step={0.0005}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("momentum_tp_pct", v, { shouldDirty: true })}
+                  testId="slider-momentum-tp"
+                />
+                <SliderField
+                  label="Momentum Stop Loss"
+                  value={form.watch("momentum_sl_pct")}
+                  min={0.002}
+                  max={0.006}
+                  step={0.0005}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("momentum_sl_pct", v, { shouldDirty: true })}
+                  testId="slider-momentum-sl"
+                />
+                <SliderField
+                  label="Momentum Time Stop"
+                  value={form.watch("momentum_time_stop_seconds")}
+                  min={60}
+                  max={300}
+                  step={10}
+                  unit="s"
+                  onChange={(v) => form.setValue("momentum_time_stop_seconds", v, { shouldDirty: true })}
+                  testId="slider-momentum-time-stop"
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label>Order Book Filter</Label>
+                <p className="text-sm text-muted-foreground">
+                  Reject signals on thin depth or a book leaning against the trade (always logged)
+                </p>
+              </div>
+              <Switch
+                checked={form.watch("enable_book_filter")}
+                onCheckedChange={(checked) =>
+                  form.setValue("enable_book_filter", checked, { shouldDirty: true })
+                }
+                data-testid="switch-enable-book-filter"
+              />
+            </div>
+            {form.watch("enable_book_filter") && (
+              <div className="space-y-6 border-t pt-6">
+                <SliderField
+                  label="Depth Window"
+                  value={form.watch("depth_within_bps")}
+                  min={5}
+                  max={50}
+                  step={5}
+                  unit=" bps"
+                  onChange={(v) => form.setValue("depth_within_bps", v, { shouldDirty: true })}
+                  testId="slider-depth-bps"
+                />
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Min Depth per Side</Label>
+                    <p className="text-sm text-muted-foreground">$K resting within the window</p>
+                  </div>
+                  <NumberCell
+                    value={form.watch("min_depth_usd")}
+                    scale={0.001}
+                    step={50}
+                    onChange={(v) => form.setValue("min_depth_usd", v ?? 0, { shouldDirty: true })}
+                    testId="input-min-depth"
+                  />
+                </div>
+                <SliderField
+                  label="Min Imbalance"
+                  value={form.watch("min_book_imbalance")}
+                  min={-0.5}
+                  max={0.5}
+                  step={0.05}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("min_book_imbalance", v, { shouldDirty: true })}
+                  testId="slider-min-imbalance"
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label>Positioning Filter</Label>
+                <p className="text-sm text-muted-foreground">
+                  Require an open interest flush and avoid adverse funding and settlement (always logged)
+                </p>
+              </div>
+              <Switch
+                checked={form.watch("enable_positioning_filter")}
+                onCheckedChange={(checked) =>
+                  form.setValue("enable_positioning_filter", checked, { shouldDirty: true })
+                }
+                data-testid="switch-enable-positioning-filter"
+              />
+            </div>
+            {form.watch("enable_positioning_filter") && (
+              <div className="space-y-6 border-t pt-6">
+                <SliderField
+                  label="Max Adverse Funding"
+                  value={form.watch("max_funding_rate")}
+                  min={0.0001}
+                  max={0.003}
+                  step={0.0001}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("max_funding_rate", v, { shouldDirty: true })}
+                  testId="slider-max-funding"
+                />
+                <SliderField
+                  label="Min OI Drop"
+                  value={form.watch("min_oi_drop_pct")}
+                  min={0}
+                  max={0.02}
+                  step={0.0005}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("min_oi_drop_pct", v, { shouldDirty: true })}
+                  testId="slider-min-oi-drop"
+                />
+                <SliderField
+                  label="Funding Buffer"
+                  value={form.watch("funding_buffer_seconds")}
+                  min={0}
+                  max={1800}
+                  step={60}
+                  unit="s"
+                  onChange={(v) => form.setValue("funding_buffer_seconds", v, { shouldDirty: true })}
+                  testId="slider-funding-buffer"
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Coins className="h-5 w-5" />
+              Symbols
+            </CardTitle>
+            <CardDescription>
+              Per-symbol thresholds. Leave cooldown, TP or SL empty to use the global value.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead>Min Liq ($M)</TableHead>
+                  <TableHead>Max Spread (bps)</TableHead>
+                  <TableHead>Cooldown (s)</TableHead>
+                  <TableHead>TP (%)</TableHead>
+                  <TableHead>SL (%)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {symbolSettings.map((setting, index) => (
+                  <TableRow key={setting.symbol} data-testid={`row-symbol-${setting.symbol}`}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {setting.symbol}
+                        {setting.symbol === "SOLUSDT" && !form.watch("enable_sol") && (
+                          <Badge variant="secondary" className="text-xs">Flag off</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={setting.enabled}
+                        onCheckedChange={(checked) => updateSymbol(index, { enabled: checked })}
+                        data-testid={`switch-symbol-enabled-${setting.symbol}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <NumberCell
+                        value={setting.min_liq_usd}
+                        scale={1 / 1000000}
+                        step={0.05}
+                        onChange={(v) => updateSymbol(index, { min_liq_usd: v ?? 0 })}
+                        testId={`input-min-liq-${setting.symbol}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <NumberCell
+                        value={setting.max_spread_bps}
+                        step={0.5}
+                        onChange={(v) => updateSymbol(index, { max_spread_bps: v ?? 0 })}
+                        testId={`input-max-spread-${setting.symbol}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <NumberCell
+                        value={setting.cooldown_seconds}
+                        step={30}
+                        placeholder={String(form.watch("symbol_cooldown_seconds"))}
+                        onChange={(v) => updateSymbol(index, { cooldown_seconds: v })}
+                        testId={`input-cooldown-${setting.symbol}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <NumberCell
+                        value={setting.tp_pct}
+                        scale={100}
+                        step={0.05}
+                        placeholder={(form.watch("tp_pct") * 100).toFixed(2)}
+                        onChange={(v) => updateSymbol(index, { tp_pct: v })}
+                        testId={`input-tp-${setting.symbol}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <NumberCell
+                        value={setting.sl_pct}
+                        scale={100}
+                        step={0.05}
+                        placeholder={(form.watch("sl_pct") * 100).toFixed(2)}
+                        onChange={(v) => updateSymbol(index, { sl_pct: v })}
+                        testId={`input-sl-${setting.symbol}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {form.formState.errors.symbol_settings && (
+              <p className="text-sm text-destructive" data-testid="text-symbol-settings-error">
+                {form.formState.errors.symbol_settings.message ?? "Some symbol settings are out of range"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Scale className="h-5 w-5" />
+              Signal Scoring
+            </CardTitle>
+            <CardDescription>
+              Score each signal by the weighted share of criteria it passes. Soft criteria only lower the score; a failed hard criterion still rejects.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between py-2">
+              <div className="space-y-0.5">
+                <Label>Weighted Scoring</Label>
+                <p className="text-sm text-muted-foreground">
+                  Enter when the score clears the threshold instead of requiring every criterion (scores are always logged)
+                </p>
+              </div>
+              <Switch
+                checked={form.watch("scoring_enabled")}
+                onCheckedChange={(checked) =>
+                  form.setValue("scoring_enabled", checked, { shouldDirty: true })
+                }
+                data-testid="switch-scoring-enabled"
+              />
+            </div>
+            {form.watch("scoring_enabled") && (
+              <div className="space-y-6 border-t pt-6">
+                <SliderField
+                  label="Pass Threshold"
+                  value={form.watch("score_threshold")}
+                  min={0.3}
+                  max={1}
+                  step={0.05}
+                  unit="%"
+                  multiplier={100}
+                  onChange={(v) => form.setValue("score_threshold", v, { shouldDirty: true })}
+                  testId="slider-score-threshold"
+                />
+                <div className="flex items-center justify-between py-2">
+                  <div className="space-y-0.5">
+                    <Label>Scale Size by Score</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Multiply the risk-based position size by the score
+                    </p>
+                  </div>
+                  <Switch
+                    checked={form.watch("score_size_scaling")}
+                    onCheckedChange={(checked) =>
+                      form.setValue("score_size_scaling", checked, { shouldDirty: true })
+                    }
+                    data-testid="switch-score-size-scaling"
+                  />
+                </div>
+              </div>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Criterion</TableHead>
+                  <TableHead>Weight</TableHead>
+                  <TableHead>Hard</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {CriterionKeyEnum.options.map((key) => (
+                  <TableRow key={key} data-testid={`row-criterion-${key}`}>
+                    <TableCell className="font-medium">{criterionLabels[key]}</TableCell>
+                    <TableCell>
+                      <NumberCell
+                        value={criterionWeights[key].weight}
+                        step={0.5}
+                        onChange={(v) => updateWeight(key, { weight: v ?? 0 })}
+                        testId={`input-weight-${key}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={criterionWeights[key].hard}
+                        onCheckedChange={(checked) => updateWeight(key, { hard: checked })}
+                        data-testid={`switch-hard-${key}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-sm text-muted-foreground">
+              Book and positioning criteria only count while their filters are on.
+            </p>
+            {form.formState.errors.criterion_weights && (
+              <p className="text-sm text-destructive" data-testid="text-criterion-weights-error">
+                {form.formState.errors.criterion_weights.message ?? "Some weights are out of range"}
+              </p>
+            )}
           </CardContent>
         </Card>
       </form>
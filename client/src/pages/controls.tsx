@@ -3,6 +3,8 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -32,8 +34,11 @@ import {
   Server,
   Zap,
   FileText,
+  Clock,
+  ListChecks,
+  ShieldAlert,
 } from "lucide-react";
-import type { BotState, HealthCheck } from "@shared/schema";
+import type { BotState, BotCommand, HealthCheck } from "@shared/schema";
 
 function ControlsSkeleton() {
   return (
@@ -89,9 +94,76 @@ function HealthItem({ label, status, icon }: HealthItemProps) {
   );
 }
 
+const commandLabels: Record<string, string> = {
+  pause: "Pause",
+  resume: "Resume",
+  flatten: "Flatten",
+  override: "Risk Override",
+};
+
+function formatCommandTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function CommandStatusBadge({ status }: { status: string }) {
+  if (status === "ACKNOWLEDGED") {
+    return (
+      <Badge className="gap-1 bg-success text-success-foreground">
+        <CheckCircle2 className="h-3 w-3" />
+        Acknowledged
+      </Badge>
+    );
+  }
+  if (status === "FAILED") {
+    return (
+      <Badge variant="destructive" className="gap-1">
+        <XCircle className="h-3 w-3" />
+        Failed
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="secondary" className="gap-1">
+      <Clock className="h-3 w-3" />
+      Pending
+    </Badge>
+  );
+}
+
+function CommandItem({ command }: { command: BotCommand }) {
+  return (
+    <div className="flex items-start justify-between gap-4 py-3" data-testid={`command-item-${command.id}`}>
+      <div className="min-w-0">
+        <p className="font-medium">
+          {commandLabels[command.command] ?? command.command}
+          <span className="ml-2 font-mono text-xs text-muted-foreground">#{command.id}</span>
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Requested {formatCommandTime(command.createdAt)}
+          {command.acknowledgedAt && ` · handled ${formatCommandTime(command.acknowledgedAt)}`}
+        </p>
+        {command.result && (
+          <p className={cn(
+            "mt-1 text-sm break-words",
+            command.status === "FAILED" ? "text-destructive" : "text-muted-foreground"
+          )}>
+            {command.result}
+          </p>
+        )}
+      </div>
+      <CommandStatusBadge status={command.status} />
+    </div>
+  );
+}
+
 export default function Controls() {
   const { toast } = useToast();
   const [isCheckingHealth, setIsCheckingHealth] = useState(false);
+  const [operatorToken, setOperatorToken] = useState("");
 
   const { data: botState, isLoading: stateLoading } = useQuery<BotState>({
     queryKey: ["/api/state"],
@@ -102,16 +174,20 @@ export default function Controls() {
     queryKey: ["/api/health"],
   });
 
+  const { data: commands } = useQuery<BotCommand[]>({
+    queryKey: ["/api/control/commands"],
+    refetchInterval: 2000,
+  });
+
   const pauseMutation = useMutation({
     mutationFn: async () => {
       return apiRequest("POST", "/api/control/pause");
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/state"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/overview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/control/commands"] });
       toast({
-        title: "Bot paused",
-        description: "Trading has been paused. No new entries will be made.",
+        title: "Pause requested",
+        description: "The bot will stop new entries once it picks up the command.",
       });
     },
     onError: () => {
@@ -128,11 +204,10 @@ export default function Controls() {
       return apiRequest("POST", "/api/control/resume");
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/state"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/overview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/control/commands"] });
       toast({
-        title: "Bot resumed",
-        description: "Trading has been resumed.",
+        title: "Resume requested",
+        description: "The bot will resume trading once it picks up the command.",
       });
     },
     onError: () => {
@@ -144,16 +219,38 @@ export default function Controls() {
     },
   });
 
+  const overrideMutation = useMutation({
+    mutationFn: async (token: string) => {
+      return apiRequest("POST", "/api/control/override", { operator_token: token });
+    },
+    onSuccess: () => {
+      setOperatorToken("");
+      queryClient.invalidateQueries({ queryKey: ["/api/control/commands"] });
+      toast({
+        title: "Override requested",
+        description: "The bot will lift the risk-limit pause once it picks up the command.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to override",
+        description: error.message.startsWith("403")
+          ? "The operator token was not accepted."
+          : "There was an error overriding the risk-limit pause.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const flattenMutation = useMutation({
     mutationFn: async () => {
       return apiRequest("POST", "/api/control/flatten");
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/state"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/overview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/control/commands"] });
       toast({
-        title: "Position flattened",
-        description: "All open positions have been closed.",
+        title: "Flatten requested",
+        description: "The bot will close all open positions once it picks up the command.",
       });
     },
     onError: () => {
@@ -203,6 +300,8 @@ export default function Controls() {
   const isPaused = botState?.status === "PAUSED_MANUAL" || botState?.status === "PAUSED_RISK_LIMIT";
   const canResume = isPaused && botState?.status !== "PAUSED_RISK_LIMIT";
   const isLiveMode = botState?.tradingMode === "live";
+  const isPending = (command: string) =>
+    commands?.some((c) => c.command === command && c.status === "PENDING") ?? false;
 
   if (stateLoading || healthLoading) {
     return (
@@ -334,28 +433,74 @@ export default function Controls() {
               variant={isRunning ? "destructive" : "outline"}
               className="w-full h-12"
               onClick={() => pauseMutation.mutate()}
-              disabled={!isRunning || pauseMutation.isPending}
+              disabled={!isRunning || pauseMutation.isPending || isPending("pause")}
               data-testid="button-pause"
             >
               <Pause className="h-4 w-4 mr-2" />
-              {pauseMutation.isPending ? "Pausing..." : "Pause Trading"}
+              {pauseMutation.isPending || isPending("pause") ? "Pausing..." : "Pause Trading"}
             </Button>
 
             <Button
               variant={canResume ? "default" : "outline"}
               className="w-full h-12"
               onClick={() => resumeMutation.mutate()}
-              disabled={!canResume || resumeMutation.isPending}
+              disabled={!canResume || resumeMutation.isPending || isPending("resume")}
               data-testid="button-resume"
             >
               <Play className="h-4 w-4 mr-2" />
-              {resumeMutation.isPending ? "Resuming..." : "Resume Trading"}
+              {resumeMutation.isPending || isPending("resume") ? "Resuming..." : "Resume Trading"}
             </Button>
 
             {botState?.status === "PAUSED_RISK_LIMIT" && (
-              <p className="text-sm text-muted-foreground text-center">
-                Cannot resume: risk limit has been hit
-              </p>
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground text-center">
+                  Risk limit hit: trading resumes on its own
+                  {botState.resumeAt ? ` at ${new Date(botState.resumeAt).toLocaleString()}` : ""}
+                </p>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={overrideMutation.isPending || isPending("override")}
+                      data-testid="button-override"
+                    >
+                      <ShieldAlert className="h-4 w-4 mr-2" />
+                      {overrideMutation.isPending || isPending("override") ? "Overriding..." : "Operator Override"}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Override Risk-Limit Pause</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Trading resumes immediately. A consecutive-loss override resets the loss streak;
+                        a daily-loss override lifts the daily loss limit for the rest of the trading day.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="space-y-2">
+                      <Label htmlFor="operator-token">Operator token</Label>
+                      <Input
+                        id="operator-token"
+                        type="password"
+                        value={operatorToken}
+                        onChange={(e) => setOperatorToken(e.target.value)}
+                        data-testid="input-operator-token"
+                      />
+                    </div>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel data-testid="button-override-cancel">Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => overrideMutation.mutate(operatorToken)}
+                        disabled={operatorToken === ""}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        data-testid="button-override-confirm"
+                      >
+                        Override
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
             )}
 
             <div className="pt-4 border-t">
@@ -364,6 +509,7 @@ export default function Controls() {
                   <Button
                     variant="destructive"
                     className="w-full h-12"
+                    disabled={isPending("flatten")}
                     data-testid="button-flatten"
                   >
                     <XCircle className="h-4 w-4 mr-2" />
@@ -442,6 +588,29 @@ export default function Controls() {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ListChecks className="h-5 w-5" />
+            Command History
+          </CardTitle>
+          <CardDescription>
+            Commands are queued for the bot and acknowledged once executed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {commands && commands.length > 0 ? (
+            <div className="divide-y">
+              {commands.map((command) => (
+                <CommandItem key={command.id} command={command} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No commands sent yet</p>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">Quick Actions Info</CardTitle>
@@ -459,6 +628,10 @@ export default function Controls() {
             <strong className="text-foreground">Emergency Flatten:</strong> Immediately closes all
             open positions at market price and cancels pending orders. Use only in emergencies.
           </p>
+          <p>
+            Each action is sent to the bot as a command. It stays pending until the running bot
+            executes it, then shows as acknowledged or failed in the command history.
+          </p>
         </CardContent>
       </Card>
     </div>
@@ -8,14 +8,14 @@ import { ChecklistCard } from "@/components/checklist-card";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Clock, AlertTriangle, Activity, TrendingUp, TrendingDown, Radio } from "lucide-react";
+import { Clock, AlertTriangle, Activity, TrendingUp, TrendingDown, Radio, Timer } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { BotState, Metrics, OpenPosition, ChecklistItem } from "@shared/schema";
 
 interface OverviewData {
   botState: BotState;
   metrics: Metrics;
-  openPosition: OpenPosition | null;
+  openPositions: OpenPosition[];
   checklist: ChecklistItem[];
 }
 
@@ -35,6 +35,52 @@ function formatTimeAgo(timestamp: string): string {
   return `${hours}h ago`;
 }
 
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+const pauseReasonLabels: Record<string, string> = {
+  CONSECUTIVE_LOSSES: "Consecutive loss limit hit",
+  DAILY_LOSS: "Daily loss limit hit",
+};
+
+function RiskPauseCountdown({ botState }: { botState: BotState }) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const resumeAt = botState.resumeAt ? new Date(botState.resumeAt).getTime() : null;
+
+  return (
+    <Card className="border-warning/50 bg-warning/5" data-testid="card-risk-pause">
+      <CardContent className="flex items-start gap-3 p-4">
+        <Timer className="h-5 w-5 text-warning mt-0.5" />
+        <div className="flex-1">
+          <p className="font-medium">
+            {(botState.pauseReason && pauseReasonLabels[botState.pauseReason]) ?? "Risk limit hit"}
+          </p>
+          <p className="text-sm text-muted-foreground" data-testid="text-resume-countdown">
+            {resumeAt === null
+              ? "Trading stays paused until an operator resumes it"
+              : resumeAt > now
+                ? `Trading resumes in ${formatRemaining(resumeAt - now)} (at ${formatTimestamp(botState.resumeAt!)})`
+                : "Resuming trading..."}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 interface PriceData {
   symbol: string;
   price: number;
@@ -223,7 +269,7 @@ export default function Overview() {
     );
   }
 
-  const { botState, metrics, openPosition, checklist } = data;
+  const { botState, metrics, openPositions, checklist } = data;
 
   return (
     <div className="space-y-6">
@@ -243,6 +289,8 @@ export default function Overview() {
         </div>
       </div>
 
+      {botState.status === "PAUSED_RISK_LIMIT" && <RiskPauseCountdown botState={botState} />}
+
       {botState.lastError && (
         <Card className="border-destructive/50 bg-destructive/5">
           <CardContent className="flex items-start gap-3 p-4">
@@ -290,7 +338,7 @@ export default function Overview() {
 
       <LivePriceStream />
 
-      <OpenPositionCard position={openPosition} />
+      <OpenPositionCard positions={openPositions} />
 
       <div className="grid gap-6 lg:grid-cols-2">
         <Card>
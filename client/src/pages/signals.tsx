@@ -45,6 +45,21 @@ function formatLiquidation(usd: number): string {
   return `$${(usd / 1_000).toFixed(0)}K`;
 }
 
+function formatCountdown(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  if (hours === 0) return `${mins}m`;
+  return `${hours}h ${mins}m`;
+}
+
+// Tooltip listing what each criterion added to the score
+function formatContributions(contributions: MarketEvent["scoreContributions"]): string {
+  if (!contributions) return "";
+  return Object.entries(contributions)
+    .map(([key, share]) => `${key}: ${((share ?? 0) * 100).toFixed(0)}%`)
+    .join("\n");
+}
+
 function SignalsSkeleton() {
   return (
     <div className="space-y-4">
@@ -83,6 +98,7 @@ function CriteriaCheck({ ok, label }: { ok: boolean; label: string }) {
 
 function SignalCard({ event }: SignalCardProps) {
   const isPassed = event.passed;
+  const isMomentum = event.variant === "MOMENTUM";
 
   return (
     <Card
@@ -123,20 +139,76 @@ function SignalCard({ event }: SignalCardProps) {
               <Badge variant={isPassed ? "outline" : "secondary"}>
                 {isPassed ? "Passed" : "Rejected"}
               </Badge>
+              {isMomentum && (
+                <Badge variant="outline" data-testid={`signal-variant-${event.id}`}>
+                  Momentum
+                </Badge>
+              )}
+              {event.score !== null && (
+                <Badge
+                  variant="outline"
+                  className="font-mono"
+                  title={formatContributions(event.scoreContributions)}
+                  data-testid={`signal-score-${event.id}`}
+                >
+                  Score {(event.score * 100).toFixed(0)}%
+                </Badge>
+              )}
             </div>
             <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
               <span className="font-mono">{formatLiquidation(event.liquidationUsd)}</span>
-              <span>Volume: {event.volumeMult.toFixed(1)}x</span>
+              <span>
+                {event.liquidationCount} liq{event.liquidationCount === 1 ? "" : "s"} over{" "}
+                {(event.cascadeDurationMs / 1000).toFixed(1)}s
+              </span>
+              {event.cascadeVwap !== null && (
+                <span className="font-mono">VWAP ${event.cascadeVwap.toLocaleString()}</span>
+              )}
+              <span title="Notional over the liquidation window vs. lookback baseline">
+                Volume: {event.volumeMult.toFixed(1)}x ({formatLiquidation(event.recentVolumeUsd)} vs{" "}
+                {formatLiquidation(event.baselineVolumeUsd)})
+              </span>
               <span>Spread: {event.spreadBps.toFixed(1)} bps</span>
+              {event.bookImbalance !== null && event.depthBidUsd !== null && event.depthAskUsd !== null && (
+                <span title="Resting bids / asks near mid and (bid - ask) / (bid + ask)">
+                  Book: {formatLiquidation(event.depthBidUsd)} / {formatLiquidation(event.depthAskUsd)} (
+                  {event.bookImbalance >= 0 ? "+" : ""}{event.bookImbalance.toFixed(2)})
+                </span>
+              )}
               <span>Delta: {event.priceDelta.toFixed(2)}%</span>
+              {event.fundingRate !== null && (
+                <span title="Funding rate for the current 8h period">
+                  Funding: {(event.fundingRate * 100).toFixed(4)}%
+                  {event.fundingSecondsLeft !== null && ` (${formatCountdown(event.fundingSecondsLeft)} to settle)`}
+                </span>
+              )}
+              {event.oiChangePct !== null && (
+                <span title="Open interest change since the cascade began">
+                  OI: {event.oiChangePct >= 0 ? "+" : ""}{(event.oiChangePct * 100).toFixed(2)}%
+                </span>
+              )}
               <span>Exhaustion: {event.exhaustionCandles}</span>
             </div>
             <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
               <CriteriaCheck ok={event.liqSizeOk} label="Size" />
               <CriteriaCheck ok={event.volumeOk} label="Volume" />
               <CriteriaCheck ok={event.spreadOk} label="Spread" />
-              <CriteriaCheck ok={event.momentumOk} label="Momentum" />
-              <CriteriaCheck ok={event.exhaustionOk} label="Exhaustion" />
+              <CriteriaCheck ok={event.depthOk} label="Depth" />
+              <CriteriaCheck ok={event.imbalanceOk} label="Imbalance" />
+              <CriteriaCheck ok={event.fundingOk} label="Funding" />
+              <CriteriaCheck ok={event.fundingTimeOk} label="Settlement" />
+              {!isMomentum && <CriteriaCheck ok={event.oiDropOk} label="OI Drop" />}
+              {isMomentum ? (
+                <>
+                  <CriteriaCheck ok={!event.exhaustionOk} label="No Exhaustion" />
+                  <CriteriaCheck ok={event.breakoutOk} label="Breakout" />
+                </>
+              ) : (
+                <>
+                  <CriteriaCheck ok={event.momentumOk} label="Momentum" />
+                  <CriteriaCheck ok={event.exhaustionOk} label="Exhaustion" />
+                </>
+              )}
             </div>
             {!isPassed && event.rejectionReason && (
               <p className="mt-2 text-sm text-muted-foreground">
@@ -157,13 +229,25 @@ function SignalCard({ event }: SignalCardProps) {
 export default function Signals() {
   const [symbol, setSymbol] = useState<string>("all");
   const [status, setStatus] = useState<string>("all");
+  const [variant, setVariant] = useState<string>("all");
+  const [strategy, setStrategy] = useState<string>("all");
+  const [sort, setSort] = useState<string>("time");
+  const [minScore, setMinScore] = useState<string>("all");
 
   const queryParams = new URLSearchParams();
   if (symbol !== "all") queryParams.set("symbol", symbol);
   if (status !== "all") queryParams.set("status", status);
+  if (variant !== "all") queryParams.set("variant", variant);
+  if (strategy !== "all") queryParams.set("strategy", strategy);
+  if (minScore !== "all") queryParams.set("minScore", minScore);
+  if (sort !== "time") queryParams.set("sort", sort);
   const queryString = queryParams.toString();
   const eventsUrl = `/api/events${queryString ? `?${queryString}` : ""}`;
 
+  const { data: strategies } = useQuery<string[]>({
+    queryKey: ["/api/strategies"],
+  });
+
   const { data, isLoading } = useQuery<SignalsResponse>({
     queryKey: [eventsUrl],
     refetchInterval: 5000,
@@ -175,6 +259,8 @@ export default function Signals() {
     if (symbol !== "all" && event.symbol !== symbol) return false;
     if (status === "passed" && !event.passed) return false;
     if (status === "rejected" && event.passed) return false;
+    if (variant !== "all" && event.variant !== variant) return false;
+    if (minScore !== "all" && (event.score === null || event.score < Number(minScore))) return false;
     return true;
   });
 
@@ -220,10 +306,51 @@ export default function Signals() {
             <SelectItem value="rejected">Rejected</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={variant} onValueChange={setVariant}>
+          <SelectTrigger className="w-36" data-testid="select-variant">
+            <SelectValue placeholder="Variant" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Variants</SelectItem>
+            <SelectItem value="REVERSION">Reversion</SelectItem>
+            <SelectItem value="MOMENTUM">Momentum</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={strategy} onValueChange={setStrategy}>
+          <SelectTrigger className="w-48" data-testid="select-strategy">
+            <SelectValue placeholder="Strategy" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Strategies</SelectItem>
+            {strategies?.map((id) => (
+              <SelectItem key={id} value={id}>{id}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={minScore} onValueChange={setMinScore}>
+          <SelectTrigger className="w-32" data-testid="select-min-score">
+            <SelectValue placeholder="Score" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Score</SelectItem>
+            <SelectItem value="0.5">Score ≥ 50%</SelectItem>
+            <SelectItem value="0.7">Score ≥ 70%</SelectItem>
+            <SelectItem value="0.9">Score ≥ 90%</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sort} onValueChange={setSort}>
+          <SelectTrigger className="w-36" data-testid="select-sort">
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="time">Newest First</SelectItem>
+            <SelectItem value="score">Highest Score</SelectItem>
+          </SelectContent>
+        </Select>
         <Button
           variant="ghost"
           size="sm"
-          onClick={() => { setSymbol("all"); setStatus("all"); }}
+          onClick={() => { setSymbol("all"); setStatus("all"); setVariant("all"); setStrategy("all"); setSort("time"); setMinScore("all"); }}
           data-testid="button-clear-filters"
         >
           <Filter className="h-4 w-4 mr-1" />
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -21,8 +21,8 @@ import {
 } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
-import { ArrowUpRight, ArrowDownRight, Search, Filter, ChevronLeft, ChevronRight } from "lucide-react";
-import type { Trade } from "@shared/schema";
+import { ArrowUpRight, ArrowDownRight, Search, Filter, ChevronLeft, ChevronRight, ChevronDown } from "lucide-react";
+import type { Trade, TradeFill, VariantSummary } from "@shared/schema";
 
 interface TradesResponse {
   trades: Trade[];
@@ -51,11 +51,102 @@ function formatTimestamp(timestamp: string): string {
 const exitReasonColors: Record<string, string> = {
   TP: "bg-success text-success-foreground",
   SL: "bg-destructive text-destructive-foreground",
+  TRAIL: "bg-success/70 text-success-foreground",
+  BREAKEVEN: "bg-secondary text-secondary-foreground",
   TIME_STOP: "bg-warning text-warning-foreground",
   MANUAL: "bg-muted text-muted-foreground",
   FLATTEN: "bg-muted text-muted-foreground",
+  LIQUIDATION: "bg-destructive/20 text-destructive",
 };
 
+const variantLabels: Record<string, string> = {
+  REVERSION: "Reversion",
+  MOMENTUM: "Momentum",
+};
+
+function VariantSummaryCard({ summary }: { summary: VariantSummary }) {
+  return (
+    <Card data-testid={`variant-summary-${summary.variant}`}>
+      <CardContent className="flex items-center justify-between gap-4 p-4">
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            {variantLabels[summary.variant] ?? summary.variant}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {summary.trades} trades · <span className="text-success">{summary.wins}W</span> /{" "}
+            <span className="text-destructive">{summary.losses}L</span> · {(summary.winRate * 100).toFixed(0)}% WR
+          </p>
+        </div>
+        <span className={cn("text-lg font-semibold", summary.pnlUsdt >= 0 ? "text-success" : "text-destructive")}>
+          ${summary.pnlUsdt >= 0 ? "+" : ""}{summary.pnlUsdt.toFixed(2)}
+        </span>
+      </CardContent>
+    </Card>
+  );
+}
+
+const fillReasonLabels: Record<string, string> = {
+  ENTRY: "Entry",
+  TP1: "TP1 partial",
+};
+
+// Entry and exit fills of one trade, loaded when its row is expanded
+function TradeFillsRow({ trade }: { trade: Trade }) {
+  const { data: fills, isLoading } = useQuery<TradeFill[]>({
+    queryKey: ["/api/trades", trade.id, "fills"],
+  });
+
+  return (
+    <TableRow className="bg-muted/40 hover:bg-muted/40" data-testid={`trade-fills-${trade.id}`}>
+      <TableCell />
+      <TableCell colSpan={9} className="py-2">
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : !fills || fills.length === 0 ? (
+          <span className="text-sm text-muted-foreground">No fills recorded</span>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 font-medium">Time</th>
+                <th className="py-1 font-medium">Fill</th>
+                <th className="py-1 font-medium">Side</th>
+                <th className="py-1 font-medium">Price</th>
+                <th className="py-1 font-medium">Qty</th>
+                <th className="py-1 font-medium">PnL</th>
+                <th className="py-1 font-medium">Fees</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fills.map((fill) => (
+                <tr key={fill.id} data-testid={`fill-row-${fill.id}`}>
+                  <td className="py-1 font-mono">{new Date(fill.timestamp).toLocaleTimeString()}</td>
+                  <td className="py-1">{fillReasonLabels[fill.reason] ?? fill.reason}</td>
+                  <td className="py-1">{fill.side}</td>
+                  <td className="py-1 font-mono">${fill.price.toLocaleString()}</td>
+                  <td className="py-1 font-mono">{fill.quantity.toFixed(4)}</td>
+                  <td
+                    className={cn(
+                      "py-1 font-mono",
+                      fill.pnlUsdt === null ? "text-muted-foreground" : fill.pnlUsdt >= 0 ? "text-success" : "text-destructive"
+                    )}
+                  >
+                    {fill.pnlUsdt === null ? "-" : `$${fill.pnlUsdt.toFixed(2)}`}
+                  </td>
+                  <td className="py-1 font-mono text-muted-foreground">
+                    ${fill.fees.toFixed(2)}
+                    {fill.commissionAsset !== "USDT" && ` (${fill.commission.toFixed(6)} ${fill.commissionAsset})`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
 function TradesSkeleton() {
   return (
     <div className="space-y-4">
@@ -100,25 +191,39 @@ export default function Trades() {
   const [symbol, setSymbol] = useState<string>("all");
   const [side, setSide] = useState<string>("all");
   const [exitReason, setExitReason] = useState<string>("all");
+  const [variant, setVariant] = useState<string>("all");
+  const [strategy, setStrategy] = useState<string>("all");
   const [search, setSearch] = useState("");
   const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
   const pageSize = 10;
 
   const queryParams = new URLSearchParams();
   if (symbol !== "all") queryParams.set("symbol", symbol);
   if (side !== "all") queryParams.set("side", side);
   if (exitReason !== "all") queryParams.set("exitReason", exitReason);
+  if (variant !== "all") queryParams.set("variant", variant);
+  if (strategy !== "all") queryParams.set("strategy", strategy);
   queryParams.set("page", page.toString());
   queryParams.set("pageSize", pageSize.toString());
 
   const queryString = queryParams.toString();
   const url = `/api/trades${queryString ? `?${queryString}` : ""}`;
 
+  const { data: strategies } = useQuery<string[]>({
+    queryKey: ["/api/strategies"],
+  });
+
   const { data, isLoading } = useQuery<TradesResponse>({
     queryKey: [url],
     refetchInterval: 10000,
   });
 
+  const { data: variantSummary } = useQuery<VariantSummary[]>({
+    queryKey: ["/api/trades/summary"],
+    refetchInterval: 10000,
+  });
+
   const trades = data?.trades || [];
   const total = data?.total || 0;
   const totalPages = Math.ceil(total / pageSize);
@@ -151,6 +256,14 @@ export default function Trades() {
         </div>
       </div>
 
+      {variantSummary && variantSummary.length > 1 && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {variantSummary.map((summary) => (
+            <VariantSummaryCard key={summary.variant} summary={summary} />
+          ))}
+        </div>
+      )}
+
       <div className="flex flex-wrap items-center gap-3">
         <div className="relative">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
@@ -184,20 +297,46 @@ export default function Trades() {
           </SelectContent>
         </Select>
         <Select value={exitReason} onValueChange={(v) => { setExitReason(v); setPage(1); }}>
-          <SelectTrigger className="w-32" data-testid="select-exit-reason">
+          <SelectTrigger className="w-36" data-testid="select-exit-reason">
             <SelectValue placeholder="Exit" />
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Exits</SelectItem>
             <SelectItem value="TP">Take Profit</SelectItem>
             <SelectItem value="SL">Stop Loss</SelectItem>
+            <SelectItem value="TRAIL">Trailing Stop</SelectItem>
+            <SelectItem value="BREAKEVEN">Break-even</SelectItem>
             <SelectItem value="TIME_STOP">Time Stop</SelectItem>
+            <SelectItem value="MANUAL">Manual</SelectItem>
+            <SelectItem value="FLATTEN">Flatten</SelectItem>
+            <SelectItem value="LIQUIDATION">Liquidation</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={variant} onValueChange={(v) => { setVariant(v); setPage(1); }}>
+          <SelectTrigger className="w-36" data-testid="select-variant">
+            <SelectValue placeholder="Variant" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Variants</SelectItem>
+            <SelectItem value="REVERSION">Reversion</SelectItem>
+            <SelectItem value="MOMENTUM">Momentum</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={strategy} onValueChange={(v) => { setStrategy(v); setPage(1); }}>
+          <SelectTrigger className="w-48" data-testid="select-strategy">
+            <SelectValue placeholder="Strategy" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Strategies</SelectItem>
+            {strategies?.map((id) => (
+              <SelectItem key={id} value={id}>{id}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
         <Button
           variant="ghost"
           size="sm"
-          onClick={() => { setSymbol("all"); setSide("all"); setExitReason("all"); setSearch(""); }}
+          onClick={() => { setSymbol("all"); setSide("all"); setExitReason("all"); setVariant("all"); setSearch(""); setStrategy("all"); }}
           data-testid="button-clear-filters"
         >
           <Filter className="h-4 w-4 mr-1" />
@@ -214,9 +353,11 @@ export default function Trades() {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-[40px]" />
                     <TableHead className="w-[140px]">Time</TableHead>
                     <TableHead className="w-[100px]">Symbol</TableHead>
                     <TableHead className="w-[80px]">Side</TableHead>
+                    <TableHead className="w-[100px]">Variant</TableHead>
                     <TableHead className="w-[110px]">Entry</TableHead>
                     <TableHead className="w-[110px]">Exit</TableHead>
                     <TableHead className="w-[100px]">PnL</TableHead>
@@ -227,52 +368,96 @@ export default function Trades() {
                 <TableBody>
                   {filteredTrades.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                      <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
                         No trades found
                       </TableCell>
                     </TableRow>
                   ) : (
                     filteredTrades.map((trade) => (
-                      <TableRow key={trade.id} data-testid={`trade-row-${trade.id}`}>
-                        <TableCell className="font-mono text-xs">
-                          {formatTimestamp(trade.entryTimestamp)}
-                        </TableCell>
-                        <TableCell className="font-medium">{trade.symbol}</TableCell>
-                        <TableCell>
-                          <Badge variant={trade.side === "LONG" ? "default" : "secondary"}>
-                            {trade.side}
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="font-mono">
-                          ${trade.entryPrice.toLocaleString()}
-                        </TableCell>
-                        <TableCell className="font-mono">
-                          ${trade.exitPrice.toLocaleString()}
-                        </TableCell>
-                        <TableCell>
-                          <span
-                            className={cn(
-                              "flex items-center font-medium",
-                              trade.pnlUsdt >= 0 ? "text-success" : "text-destructive"
+                      <Fragment key={trade.id}>
+                        <TableRow
+                          className={cn(trade.fillCount > 0 && "cursor-pointer")}
+                          onClick={() => trade.fillCount > 0 && setExpandedId(expandedId === trade.id ? null : trade.id)}
+                          data-testid={`trade-row-${trade.id}`}
+                        >
+                          <TableCell>
+                            {trade.fillCount > 0 && (
+                              <ChevronDown
+                                className={cn(
+                                  "h-4 w-4 text-muted-foreground transition-transform",
+                                  expandedId !== trade.id && "-rotate-90"
+                                )}
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {formatTimestamp(trade.entryTimestamp)}
+                          </TableCell>
+                          <TableCell className="font-medium">{trade.symbol}</TableCell>
+                          <TableCell>
+                            <Badge variant={trade.side === "LONG" ? "default" : "secondary"}>
+                              {trade.side}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="text-xs">
+                              {variantLabels[trade.variant] ?? trade.variant}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-mono">
+                            ${trade.entryPrice.toLocaleString()}
+                            {trade.slPct !== null && trade.tpPct !== null && (
+                              <div className="text-xs text-muted-foreground" data-testid={`trade-stops-${trade.id}`}>
+                                SL {(trade.slPct * 100).toFixed(2)}% · TP {(trade.tpPct * 100).toFixed(2)}%
+                                {trade.stopMode !== "FIXED" && ` (${trade.stopMode})`}
+                              </div>
+                            )}
+                            {trade.entryMode && trade.entryMode !== "MARKET" && (
+                              <div className="text-xs text-muted-foreground" data-testid={`trade-entry-${trade.id}`}>
+                                {trade.entryMode} · {((trade.fillRatio ?? 0) * 100).toFixed(0)}% filled
+                                {trade.timeToFillMs !== null && ` · ${trade.timeToFillMs}ms`}
+                              </div>
+                            )}
+                            {trade.sizeLimit && trade.sizeReductionPct !== null && (
+                              <div className="text-xs text-muted-foreground" data-testid={`trade-size-limit-${trade.id}`}>
+                                Size -{(trade.sizeReductionPct * 100).toFixed(0)}% ({trade.sizeLimit})
+                              </div>
                             )}
-                          >
-                            {trade.pnlUsdt >= 0 ? (
-                              <ArrowUpRight className="h-4 w-4 mr-1" />
-                            ) : (
-                              <ArrowDownRight className="h-4 w-4 mr-1" />
+                          </TableCell>
+                          <TableCell className="font-mono">
+                            ${trade.exitPrice.toLocaleString()}
+                          </TableCell>
+                          <TableCell>
+                            <span
+                              className={cn(
+                                "flex items-center font-medium",
+                                trade.pnlUsdt >= 0 ? "text-success" : "text-destructive"
+                              )}
+                            >
+                              {trade.pnlUsdt >= 0 ? (
+                                <ArrowUpRight className="h-4 w-4 mr-1" />
+                              ) : (
+                                <ArrowDownRight className="h-4 w-4 mr-1" />
+                              )}
+                              ${Math.abs(trade.pnlUsdt).toFixed(2)}
+                            </span>
+                            {trade.netPnlUsdt !== null && (
+                              <div className="text-xs text-muted-foreground" data-testid={`trade-net-pnl-${trade.id}`}>
+                                Net ${trade.netPnlUsdt.toFixed(2)} · fees ${(trade.fees ?? 0).toFixed(2)}
+                              </div>
                             )}
-                            ${Math.abs(trade.pnlUsdt).toFixed(2)}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-muted-foreground">
-                          {formatDuration(trade.duration)}
-                        </TableCell>
-                        <TableCell>
-                          <Badge className={cn("text-xs", exitReasonColors[trade.exitReason])}>
-                            {trade.exitReason}
-                          </Badge>
-                        </TableCell>
-                      </TableRow>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {formatDuration(trade.duration)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={cn("text-xs", exitReasonColors[trade.exitReason])}>
+                              {trade.exitReason}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                        {expandedId === trade.id && <TradeFillsRow trade={trade} />}
+                      </Fragment>
                     ))
                   )}
                 </TableBody>
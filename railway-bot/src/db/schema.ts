@@ -1,4 +1,4 @@
-import { pgTable, text, integer, real, boolean, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, real, boolean, timestamp, serial, jsonb, bigint } from "drizzle-orm/pg-core";
 
 // Bot State Table
 export const botStates = pgTable("bot_states", {
@@ -10,12 +10,23 @@ export const botStates = pgTable("bot_states", {
   tradingMode: text("trading_mode").notNull().default("paper"),
   paperStartDate: timestamp("paper_start_date"),
   paperTradesCount: integer("paper_trades_count").notNull().default(0),
+  runningConfigVersion: integer("running_config_version"),
+  // Set while PAUSED_RISK_LIMIT: which limit tripped and when trading resumes on its own
+  pauseReason: text("pause_reason"),
+  resumeAt: timestamp("resume_at"),
+  // Outcome of the last position reconciliation pass
+  reconciledAt: timestamp("reconciled_at"),
+  reconcileStatus: text("reconcile_status"),
+  reconcileDetail: text("reconcile_detail"),
 });
 
-// Metrics Table
+// Metrics Table (one row per trading day; the latest row is today)
 export const metrics = pgTable("metrics", {
   id: serial("id").primaryKey(),
   date: timestamp("date").defaultNow(),
+  // YYYY-MM-DD in the configured trading-day timezone; closedAt is set at the boundary
+  tradingDay: text("trading_day").unique(),
+  closedAt: timestamp("closed_at"),
   equityUsdt: real("equity_usdt").notNull().default(0),
   equityZar: real("equity_zar").notNull().default(0),
   todayPnlUsdt: real("today_pnl_usdt").notNull().default(0),
@@ -43,13 +54,55 @@ export const trades = pgTable("trades", {
   duration: integer("duration"),
   fees: real("fees"),
   slippageEst: real("slippage_est"),
+  tpPct: real("tp_pct"),
+  slPct: real("sl_pct"),
+  stopMode: text("stop_mode").notNull().default("FIXED"),
+  volPct: real("vol_pct"),
+  // Time stop the trade was entered with, so a restart keeps it
+  timeStopSeconds: integer("time_stop_seconds"),
+  // Live only: reduce-only stop and take-profit orders resting on the exchange
+  stopOrderId: bigint("stop_order_id", { mode: "number" }),
+  tpOrderId: bigint("tp_order_id", { mode: "number" }),
+  // How the entry was worked: mode used (e.g. POST_ONLY+MARKET), share of the
+  // size filled by the limit order and time from first order to last fill
+  entryMode: text("entry_mode"),
+  fillRatio: real("fill_ratio"),
+  timeToFillMs: integer("time_to_fill_ms"),
+  // Share of the risk-based size cut by margin limits and the limit that bound
+  // (MARGIN_CAP, BALANCE or BRACKET); null when the full size was taken
+  sizeReductionPct: real("size_reduction_pct"),
+  sizeLimit: text("size_limit"),
+  // fees is the commission in USDT across every fill; pnl_usdt is realized PnL
+  // before commission (as Binance reports it, live) and net_pnl_usdt after it
+  netPnlUsdt: real("net_pnl_usdt"),
+  commissionAsset: text("commission_asset"),
   exitReason: text("exit_reason"),
   entryTimestamp: timestamp("entry_timestamp").defaultNow(),
   exitTimestamp: timestamp("exit_timestamp"),
   setupId: text("setup_id"),
+  variant: text("variant").notNull().default("REVERSION"),
+  strategyId: text("strategy_id").notNull().default("liquidation-reversion"),
   isOpen: boolean("is_open").notNull().default(true),
 });
 
+// Trade Fills Table (entry and every partial or final exit of a trade)
+export const tradeFills = pgTable("trade_fills", {
+  id: serial("id").primaryKey(),
+  tradeId: integer("trade_id").notNull(),
+  side: text("side").notNull(),
+  reason: text("reason").notNull(),
+  price: real("price").notNull(),
+  quantity: real("quantity").notNull(),
+  pnlUsdt: real("pnl_usdt"),
+  fees: real("fees").notNull().default(0),
+  // Commission in the asset Binance charged it in (fees is its USDT value)
+  commission: real("commission").notNull().default(0),
+  commissionAsset: text("commission_asset").notNull().default("USDT"),
+  // Live only: the exchange order the fill came from
+  orderId: bigint("order_id", { mode: "number" }),
+  timestamp: timestamp("timestamp").defaultNow(),
+});
+
 // Market Events Table
 export const marketEvents = pgTable("market_events", {
   id: serial("id").primaryKey(),
@@ -57,7 +110,12 @@ export const marketEvents = pgTable("market_events", {
   symbol: text("symbol").notNull(),
   liquidationUsd: real("liquidation_usd").notNull(),
   liquidationSide: text("liquidation_side").notNull(),
+  liquidationCount: integer("liquidation_count").notNull().default(1),
+  cascadeDurationMs: integer("cascade_duration_ms").notNull().default(0),
+  cascadeVwap: real("cascade_vwap"),
   volumeMult: real("volume_mult").notNull(),
+  recentVolumeUsd: real("recent_volume_usd").notNull().default(0),
+  baselineVolumeUsd: real("baseline_volume_usd").notNull().default(0),
   spreadBps: real("spread_bps").notNull(),
   priceDelta: real("price_delta").notNull().default(0),
   exhaustionCandles: integer("exhaustion_candles").notNull().default(0),
@@ -66,6 +124,22 @@ export const marketEvents = pgTable("market_events", {
   spreadOk: boolean("spread_ok").notNull().default(false),
   momentumOk: boolean("momentum_ok").notNull().default(false),
   exhaustionOk: boolean("exhaustion_ok").notNull().default(false),
+  breakoutOk: boolean("breakout_ok").notNull().default(false),
+  bookImbalance: real("book_imbalance"),
+  depthBidUsd: real("depth_bid_usd"),
+  depthAskUsd: real("depth_ask_usd"),
+  imbalanceOk: boolean("imbalance_ok").notNull().default(false),
+  depthOk: boolean("depth_ok").notNull().default(false),
+  fundingRate: real("funding_rate"),
+  fundingSecondsLeft: integer("funding_seconds_left"),
+  oiChangePct: real("oi_change_pct"),
+  fundingOk: boolean("funding_ok").notNull().default(false),
+  oiDropOk: boolean("oi_drop_ok").notNull().default(false),
+  fundingTimeOk: boolean("funding_time_ok").notNull().default(false),
+  score: real("score"),
+  scoreContributions: jsonb("score_contributions"),
+  variant: text("variant").notNull().default("REVERSION"),
+  strategyId: text("strategy_id").notNull().default("liquidation-reversion"),
   passed: boolean("passed").notNull().default(false),
   rejectionReason: text("rejection_reason"),
 });
@@ -82,6 +156,7 @@ export const logEntries = pgTable("log_entries", {
 // Config Table
 export const configs = pgTable("configs", {
   id: serial("id").primaryKey(),
+  strategyId: text("strategy_id").notNull().default("liquidation-reversion"),
   version: integer("version").notNull().default(1),
   mode: text("mode").notNull().default("paper"),
   symbols: text("symbols").notNull().default("BTCUSDT,ETHUSDT"),
@@ -91,22 +166,88 @@ export const configs = pgTable("configs", {
   maxTradesPerDay: integer("max_trades_per_day").notNull().default(10),
   maxConsecutiveLosses: integer("max_consecutive_losses").notNull().default(3),
   pauseAfterLossesMinutes: integer("pause_after_losses_minutes").notNull().default(60),
+  tradingDayTimezone: text("trading_day_timezone").notNull().default("UTC"),
+  // What the position reconciler does about a mismatch: ALERT, ADOPT or CLOSE
+  reconcilePolicy: text("reconcile_policy").notNull().default("ALERT"),
+  reconcileIntervalSeconds: integer("reconcile_interval_seconds").notNull().default(30),
   maxMarginPerTradePct: real("max_margin_per_trade_pct").notNull().default(0.20),
+  maxConcurrentPositions: integer("max_concurrent_positions").notNull().default(2),
+  maxTotalNotionalPct: real("max_total_notional_pct").notNull().default(1.5),
+  maxTotalMarginPct: real("max_total_margin_pct").notNull().default(0.6),
+  maxCorrelatedPositions: integer("max_correlated_positions").notNull().default(1),
   liqWindowSeconds: integer("liq_window_seconds").notNull().default(60),
   volumeLookback: integer("volume_lookback").notNull().default(20),
   volumeMult: real("volume_mult").notNull().default(2.0),
   exhaustionCandles: integer("exhaustion_candles").notNull().default(2),
   symbolCooldownSeconds: integer("symbol_cooldown_seconds").notNull().default(300),
+  depthWithinBps: integer("depth_within_bps").notNull().default(10),
+  minDepthUsd: real("min_depth_usd").notNull().default(250000),
+  minBookImbalance: real("min_book_imbalance").notNull().default(0),
+  maxFundingRate: real("max_funding_rate").notNull().default(0.0005),
+  minOiDropPct: real("min_oi_drop_pct").notNull().default(0.002),
+  fundingBufferSeconds: integer("funding_buffer_seconds").notNull().default(300),
   tpPct: real("tp_pct").notNull().default(0.0035),
   slPct: real("sl_pct").notNull().default(0.0045),
   timeStopSeconds: integer("time_stop_seconds").notNull().default(150),
   entryFillTimeoutMs: integer("entry_fill_timeout_ms").notNull().default(800),
   useMarketIfNotFilled: boolean("use_market_if_not_filled").notNull().default(true),
+  // MARKET, IOC (limit crossing the touch by entryOffsetBps) or POST_ONLY (resting entryOffsetBps behind it)
+  entryMode: text("entry_mode").notNull().default("MARKET"),
+  entryOffsetBps: real("entry_offset_bps").notNull().default(2),
+  // Paper fills pay these shares of notional as commission (post-only entries
+  // are maker, everything else taker)
+  paperMakerFeePct: real("paper_maker_fee_pct").notNull().default(0.0002),
+  paperTakerFeePct: real("paper_taker_fee_pct").notNull().default(0.0005),
   enableSol: boolean("enable_sol").notNull().default(false),
   enableMomentumVariant: boolean("enable_momentum_variant").notNull().default(false),
+  enableBookFilter: boolean("enable_book_filter").notNull().default(false),
+  enablePositioningFilter: boolean("enable_positioning_filter").notNull().default(false),
+  scoringEnabled: boolean("scoring_enabled").notNull().default(false),
+  scoreThreshold: real("score_threshold").notNull().default(0.7),
+  scoreSizeScaling: boolean("score_size_scaling").notNull().default(false),
+  criterionWeights: jsonb("criterion_weights"),
+  momentumTpPct: real("momentum_tp_pct").notNull().default(0.005),
+  momentumSlPct: real("momentum_sl_pct").notNull().default(0.003),
+  momentumTimeStopSeconds: integer("momentum_time_stop_seconds").notNull().default(120),
+  breakevenEnabled: boolean("breakeven_enabled").notNull().default(false),
+  breakevenTriggerPct: real("breakeven_trigger_pct").notNull().default(0.002),
+  trailMode: text("trail_mode").notNull().default("OFF"),
+  trailTriggerPct: real("trail_trigger_pct").notNull().default(0.0025),
+  trailPct: real("trail_pct").notNull().default(0.002),
+  trailAtrMult: real("trail_atr_mult").notNull().default(1.5),
+  scaleOutEnabled: boolean("scale_out_enabled").notNull().default(false),
+  tp1Pct: real("tp1_pct").notNull().default(0.0025),
+  tp1ClosePct: real("tp1_close_pct").notNull().default(0.5),
+  volMode: text("vol_mode").notNull().default("OFF"),
+  volStopMult: real("vol_stop_mult").notNull().default(3),
+  volSlFloorPct: real("vol_sl_floor_pct").notNull().default(0.002),
+  volSlCapPct: real("vol_sl_cap_pct").notNull().default(0.01),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Symbol Settings Table (per-symbol thresholds; null overrides use the config value)
+export const symbolSettings = pgTable("symbol_settings", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull().unique(),
+  enabled: boolean("enabled").notNull().default(true),
+  minLiqUsd: real("min_liq_usd").notNull(),
+  maxSpreadBps: real("max_spread_bps").notNull(),
+  cooldownSeconds: integer("cooldown_seconds"),
+  tpPct: real("tp_pct"),
+  slPct: real("sl_pct"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Bot Commands Table (dashboard -> bot control channel)
+export const botCommands = pgTable("bot_commands", {
+  id: serial("id").primaryKey(),
+  command: text("command").notNull(),
+  status: text("status").notNull().default("PENDING"),
+  result: text("result"),
+  createdAt: timestamp("created_at").defaultNow(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+});
+
 // Health Check Table
 export const healthChecks = pgTable("health_checks", {
   id: serial("id").primaryKey(),
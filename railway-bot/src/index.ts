@@ -3,11 +3,36 @@ dotenv.config();
 
 import { BinanceWebSocket } from "./services/binance-ws";
 import { BinanceAPI } from "./services/binance-api";
-import { LiquidationReversionStrategy } from "./strategies/liquidation-reversion";
+import { LiquidationReversionStrategy, LIQUIDATION_REVERSION_ID } from "./strategies/liquidation-reversion";
+import type { Config, CriterionKey, CriterionWeight, EntryMode, ReconcilePolicy, Strategy, SymbolSettings, TrailMode, VolMode } from "./strategies/types";
+import { DEFAULT_CRITERION_WEIGHTS } from "./strategies/scoring";
+import { StrategyRunner } from "./services/strategy-runner";
+import { CommandProcessor } from "./services/command-processor";
+import { isValidTimeZone } from "./services/trading-day";
 import { logger } from "./services/logger";
 import { db } from "./db";
-import { configs, botStates, metrics } from "./db/schema";
-import { desc } from "drizzle-orm";
+import { configs, botStates, metrics, symbolSettings } from "./db/schema";
+import { desc, eq } from "drizzle-orm";
+
+// Strategies hosted by this process. The first one's config also carries the
+// account-wide settings (symbols, leverage, daily limits).
+const STRATEGY_IDS = [LIQUIDATION_REVERSION_ID];
+
+// Used until the dashboard has saved symbol_settings rows
+const DEFAULT_SYMBOL_SETTINGS: Record<string, SymbolSettings> = {
+  BTCUSDT: { enabled: true, minLiqUsd: 2500000, maxSpreadBps: 3, cooldownSeconds: null, tpPct: null, slPct: null },
+  ETHUSDT: { enabled: true, minLiqUsd: 1250000, maxSpreadBps: 4, cooldownSeconds: null, tpPct: null, slPct: null },
+  SOLUSDT: { enabled: true, minLiqUsd: 500000, maxSpreadBps: 5, cooldownSeconds: null, tpPct: null, slPct: null },
+};
+
+function createStrategy(id: string, config: Config): Strategy {
+  switch (id) {
+    case LIQUIDATION_REVERSION_ID:
+      return new LiquidationReversionStrategy(config);
+    default:
+      throw new Error(`Unknown strategy: ${id}`);
+  }
+}
 
 async function main() {
   logger.info("Starting Liquidation Reversion Trading Bot");
@@ -29,8 +54,12 @@ async function main() {
   let isLive = tradingMode === "live";
   logger.info(`Trading mode: ${isLive ? "LIVE" : "PAPER"} (from database)`);
   
-  // Load config from database or use defaults
-  let config = await loadConfig();
+  // Load each strategy's config from database or use defaults
+  const strategyConfigs = new Map<string, Config>();
+  for (const id of STRATEGY_IDS) {
+    strategyConfigs.set(id, await loadConfig(id));
+  }
+  const config = strategyConfigs.get(STRATEGY_IDS[0])!;
   logger.info(`Config loaded: ${config.symbols.join(", ")}, Leverage: ${config.leverage}x`);
   
   // Initialize Binance connections
@@ -46,11 +75,43 @@ async function main() {
     process.exit(1);
   }
   
-  // Initialize strategy
-  const strategy = new LiquidationReversionStrategy(ws, api, config, isLive);
+  // Initialize strategies on a shared runner
+  const runner = new StrategyRunner(ws, api, config, isLive);
+  for (const [id, strategyConfig] of strategyConfigs) {
+    runner.register(createStrategy(id, strategyConfig));
+  }
+  
+  // Start the strategies
+  await runner.start();
   
-  // Start the strategy
-  await strategy.start();
+  // Execute pause/resume/flatten commands queued from the dashboard
+  const commands = new CommandProcessor(runner);
+  commands.start();
+  
+  // Pick up configs published from the dashboard; open positions keep their exits
+  // A version is only recorded once applied, so one that fails is retried;
+  // its error is logged once
+  const publishedVersions = new Map(Array.from(strategyConfigs, ([id, c]) => [id, c.version]));
+  const failedVersions = new Map<string, number>();
+  setInterval(async () => {
+    for (const id of STRATEGY_IDS) {
+      const version = await getConfigVersionFromDb(id);
+      if (version === null || version === publishedVersions.get(id)) continue;
+
+      const retry = failedVersions.get(id) === version;
+      if (!retry) {
+        logger.info(`${id} config v${version} published (running v${runner.configVersion(id)})`);
+      }
+      try {
+        await runner.applyConfig(id, await loadConfig(id, false));
+        publishedVersions.set(id, version);
+        failedVersions.delete(id);
+      } catch (err) {
+        if (!retry) logger.error(`Failed to apply ${id} config v${version}`, String(err));
+        failedVersions.set(id, version);
+      }
+    }
+  }, 5000); // Check every 5 seconds
   
   // Periodically check if trading mode changed in database
   setInterval(async () => {
@@ -59,21 +120,25 @@ async function main() {
       logger.warn(`Trading mode changed from ${tradingMode.toUpperCase()} to ${newMode.toUpperCase()}`);
       tradingMode = newMode;
       isLive = tradingMode === "live";
-      strategy.setLiveMode(isLive);
+      runner.setLiveMode(isLive);
     }
   }, 5000); // Check every 5 seconds
   
   // Graceful shutdown
   process.on("SIGINT", async () => {
     logger.info("Received SIGINT, shutting down...");
-    await strategy.flatten();
+    commands.stop();
+    runner.stop();
+    await runner.flatten(false);
     await ws.disconnect();
     process.exit(0);
   });
   
   process.on("SIGTERM", async () => {
     logger.info("Received SIGTERM, shutting down...");
-    await strategy.flatten();
+    commands.stop();
+    runner.stop();
+    await runner.flatten(false);
     await ws.disconnect();
     process.exit(0);
   });
@@ -93,60 +158,227 @@ async function getTradingModeFromDb(): Promise<"paper" | "live"> {
   return "paper";
 }
 
-async function loadConfig() {
+async function getConfigVersionFromDb(strategyId: string): Promise<number | null> {
+  try {
+    const [record] = await db.select({ version: configs.version })
+      .from(configs)
+      .where(eq(configs.strategyId, strategyId))
+      .orderBy(desc(configs.id))
+      .limit(1);
+    return record?.version ?? null;
+  } catch (err) {
+    logger.warn("Could not read config version from database");
+    return null;
+  }
+}
+
+// Falls back to the default config when there is no readable row, unless
+// `useDefaults` is off; then it throws so a published update can be retried
+async function loadConfig(strategyId: string, useDefaults = true): Promise<Config> {
   try {
-    const [record] = await db.select().from(configs).orderBy(desc(configs.id)).limit(1);
+    const [record] = await db.select()
+      .from(configs)
+      .where(eq(configs.strategyId, strategyId))
+      .orderBy(desc(configs.id))
+      .limit(1);
     
     if (record) {
       return {
+        version: record.version,
         symbols: record.symbols.split(","),
         leverage: record.leverage,
         riskPerTradePct: record.riskPerTradePct,
         dailyMaxLossPct: record.dailyMaxLossPct,
         maxTradesPerDay: record.maxTradesPerDay,
         maxConsecutiveLosses: record.maxConsecutiveLosses,
+        pauseAfterLossesMinutes: record.pauseAfterLossesMinutes,
+        tradingDayTimezone: isValidTimeZone(record.tradingDayTimezone) ? record.tradingDayTimezone : "UTC",
+        reconcilePolicy: parseReconcilePolicy(record.reconcilePolicy),
+        reconcileIntervalSeconds: record.reconcileIntervalSeconds,
+        maxMarginPerTradePct: record.maxMarginPerTradePct,
+        maxConcurrentPositions: record.maxConcurrentPositions,
+        maxTotalNotionalPct: record.maxTotalNotionalPct,
+        maxTotalMarginPct: record.maxTotalMarginPct,
+        maxCorrelatedPositions: record.maxCorrelatedPositions,
         liqWindowSeconds: record.liqWindowSeconds,
-        minLiqUsd: { BTCUSDT: 2500000, ETHUSDT: 1250000, SOLUSDT: 500000 },
+        volumeLookback: record.volumeLookback,
         volumeMult: record.volumeMult,
-        maxSpreadBps: { BTCUSDT: 3, ETHUSDT: 4, SOLUSDT: 5 },
+        exhaustionCandles: record.exhaustionCandles,
         symbolCooldownSeconds: record.symbolCooldownSeconds,
+        depthWithinBps: record.depthWithinBps,
+        minDepthUsd: record.minDepthUsd,
+        minBookImbalance: record.minBookImbalance,
+        enableBookFilter: record.enableBookFilter,
+        maxFundingRate: record.maxFundingRate,
+        minOiDropPct: record.minOiDropPct,
+        fundingBufferSeconds: record.fundingBufferSeconds,
+        enablePositioningFilter: record.enablePositioningFilter,
+        scoringEnabled: record.scoringEnabled,
+        scoreThreshold: record.scoreThreshold,
+        scoreSizeScaling: record.scoreSizeScaling,
+        criterionWeights: parseCriterionWeights(record.criterionWeights),
+        symbolSettings: await loadSymbolSettings(),
         tpPct: record.tpPct,
         slPct: record.slPct,
         timeStopSeconds: record.timeStopSeconds,
+        entryMode: parseEntryMode(record.entryMode),
+        entryOffsetBps: record.entryOffsetBps,
         entryFillTimeoutMs: record.entryFillTimeoutMs,
+        useMarketIfNotFilled: record.useMarketIfNotFilled,
+        paperMakerFeePct: record.paperMakerFeePct,
+        paperTakerFeePct: record.paperTakerFeePct,
+        enableMomentumVariant: record.enableMomentumVariant,
+        momentumTpPct: record.momentumTpPct,
+        momentumSlPct: record.momentumSlPct,
+        momentumTimeStopSeconds: record.momentumTimeStopSeconds,
+        breakevenEnabled: record.breakevenEnabled,
+        breakevenTriggerPct: record.breakevenTriggerPct,
+        trailMode: parseTrailMode(record.trailMode),
+        trailTriggerPct: record.trailTriggerPct,
+        trailPct: record.trailPct,
+        trailAtrMult: record.trailAtrMult,
+        scaleOutEnabled: record.scaleOutEnabled,
+        tp1Pct: record.tp1Pct,
+        tp1ClosePct: record.tp1ClosePct,
+        volMode: parseVolMode(record.volMode),
+        volStopMult: record.volStopMult,
+        volSlFloorPct: record.volSlFloorPct,
+        volSlCapPct: record.volSlCapPct,
       };
     }
   } catch (err) {
-    logger.warn("Could not load config from database, using defaults");
+    if (!useDefaults) throw err;
+    logger.warn(`Could not load ${strategyId} config from database, using defaults`);
+  }
+  if (!useDefaults) {
+    throw new Error(`No ${strategyId} config in the database`);
   }
   
   // Default config
   return {
+    version: 1,
     symbols: ["BTCUSDT", "ETHUSDT"],
     leverage: 2,
     riskPerTradePct: 0.0025,
     dailyMaxLossPct: 0.015,
     maxTradesPerDay: 10,
     maxConsecutiveLosses: 3,
+    pauseAfterLossesMinutes: 60,
+    tradingDayTimezone: "UTC",
+    reconcilePolicy: "ALERT",
+    reconcileIntervalSeconds: 30,
+    maxMarginPerTradePct: 0.20,
+    maxConcurrentPositions: 2,
+    maxTotalNotionalPct: 1.5,
+    maxTotalMarginPct: 0.6,
+    maxCorrelatedPositions: 1,
     liqWindowSeconds: 60,
-    minLiqUsd: { BTCUSDT: 2500000, ETHUSDT: 1250000, SOLUSDT: 500000 },
+    volumeLookback: 20,
     volumeMult: 2.0,
-    maxSpreadBps: { BTCUSDT: 3, ETHUSDT: 4, SOLUSDT: 5 },
+    exhaustionCandles: 2,
     symbolCooldownSeconds: 300,
+    depthWithinBps: 10,
+    minDepthUsd: 250000,
+    minBookImbalance: 0,
+    enableBookFilter: false,
+    maxFundingRate: 0.0005,
+    minOiDropPct: 0.002,
+    fundingBufferSeconds: 300,
+    enablePositioningFilter: false,
+    scoringEnabled: false,
+    scoreThreshold: 0.7,
+    scoreSizeScaling: false,
+    criterionWeights: { ...DEFAULT_CRITERION_WEIGHTS },
+    symbolSettings: { ...DEFAULT_SYMBOL_SETTINGS },
     tpPct: 0.0035,
     slPct: 0.0045,
     timeStopSeconds: 150,
+    entryMode: "MARKET",
+    entryOffsetBps: 2,
     entryFillTimeoutMs: 800,
+    useMarketIfNotFilled: true,
+    paperMakerFeePct: 0.0002,
+    paperTakerFeePct: 0.0005,
+    enableMomentumVariant: false,
+    momentumTpPct: 0.005,
+    momentumSlPct: 0.003,
+    momentumTimeStopSeconds: 120,
+    breakevenEnabled: false,
+    breakevenTriggerPct: 0.002,
+    trailMode: "OFF",
+    trailTriggerPct: 0.0025,
+    trailPct: 0.002,
+    trailAtrMult: 1.5,
+    scaleOutEnabled: false,
+    tp1Pct: 0.0025,
+    tp1ClosePct: 0.5,
+    volMode: "OFF",
+    volStopMult: 3,
+    volSlFloorPct: 0.002,
+    volSlCapPct: 0.01,
   };
 }
 
+function parseTrailMode(value: string): TrailMode {
+  return value === "PCT" || value === "ATR" ? value : "OFF";
+}
+
+function parseVolMode(value: string): VolMode {
+  return value === "ATR" || value === "REALIZED" ? value : "OFF";
+}
+
+function parseEntryMode(value: string): EntryMode {
+  return value === "IOC" || value === "POST_ONLY" ? value : "MARKET";
+}
+
+function parseReconcilePolicy(value: string): ReconcilePolicy {
+  return value === "ADOPT" || value === "CLOSE" ? value : "ALERT";
+}
+
+// Criteria missing from the stored weights (or malformed) keep their defaults
+function parseCriterionWeights(value: unknown): Record<CriterionKey, CriterionWeight> {
+  const stored = (value && typeof value === "object" ? value : {}) as Record<string, Partial<CriterionWeight>>;
+  const weights = { ...DEFAULT_CRITERION_WEIGHTS };
+  for (const key of Object.keys(weights) as CriterionKey[]) {
+    const entry = stored[key];
+    if (entry && typeof entry.weight === "number" && typeof entry.hard === "boolean") {
+      weights[key] = { weight: entry.weight, hard: entry.hard };
+    }
+  }
+  return weights;
+}
+
+async function loadSymbolSettings(): Promise<Record<string, SymbolSettings>> {
+  const settings = { ...DEFAULT_SYMBOL_SETTINGS };
+  try {
+    const rows = await db.select().from(symbolSettings);
+    for (const row of rows) {
+      settings[row.symbol] = {
+        enabled: row.enabled,
+        minLiqUsd: row.minLiqUsd,
+        maxSpreadBps: row.maxSpreadBps,
+        cooldownSeconds: row.cooldownSeconds,
+        tpPct: row.tpPct,
+        slPct: row.slPct,
+      };
+    }
+  } catch (err) {
+    logger.warn("Could not load symbol settings from database, using defaults");
+  }
+  return settings;
+}
+
 async function initializeDatabase() {
   try {
     // Check if config exists, if not create default
-    const [existingConfig] = await db.select().from(configs).orderBy(desc(configs.id)).limit(1);
+    const [existingConfig] = await db.select().from(configs)
+      .where(eq(configs.strategyId, STRATEGY_IDS[0]))
+      .orderBy(desc(configs.id))
+      .limit(1);
     if (!existingConfig) {
       logger.info("No config found, creating default configuration...");
       await db.insert(configs).values({
+        strategyId: STRATEGY_IDS[0],
         version: 1,
         mode: "paper",
         symbols: "BTCUSDT,ETHUSDT",
@@ -157,6 +389,10 @@ async function initializeDatabase() {
         maxConsecutiveLosses: 3,
         pauseAfterLossesMinutes: 60,
         maxMarginPerTradePct: 0.20,
+        maxConcurrentPositions: 2,
+        maxTotalNotionalPct: 1.5,
+        maxTotalMarginPct: 0.6,
+        maxCorrelatedPositions: 1,
         liqWindowSeconds: 60,
         volumeLookback: 20,
         volumeMult: 2.0,
@@ -169,10 +405,22 @@ async function initializeDatabase() {
         useMarketIfNotFilled: true,
         enableSol: false,
         enableMomentumVariant: false,
+        momentumTpPct: 0.005,
+        momentumSlPct: 0.003,
+        momentumTimeStopSeconds: 120,
       });
       logger.info("Default config created successfully");
     }
 
+    // Seed per-symbol settings so the dashboard has rows to edit
+    const existingSymbols = await db.select().from(symbolSettings);
+    if (existingSymbols.length === 0) {
+      logger.info("No symbol settings found, creating defaults...");
+      await db.insert(symbolSettings).values(
+        Object.entries(DEFAULT_SYMBOL_SETTINGS).map(([symbol, settings]) => ({ symbol, ...settings }))
+      );
+    }
+
     // Check if metrics exists, if not create default
     const [existingMetrics] = await db.select().from(metrics).orderBy(desc(metrics.id)).limit(1);
     if (!existingMetrics) {
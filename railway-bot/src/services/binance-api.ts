@@ -1,13 +1,16 @@
 import crypto from "crypto";
+import { ExchangeInfo, stepDecimals, type SymbolFilters } from "./exchange-info";
 import { logger } from "./logger";
 
-interface OrderResult {
+export interface OrderResult {
   orderId: number;
   symbol: string;
   side: "BUY" | "SELL";
   positionSide: string;
   type: string;
   price: number;
+  // Trigger price of STOP_MARKET / TAKE_PROFIT_MARKET orders, 0 otherwise
+  stopPrice: number;
   avgPrice: number;
   origQty: number;
   executedQty: number;
@@ -15,13 +18,42 @@ interface OrderResult {
   updateTime: number;
 }
 
+// One execution of an order from /fapi/v1/userTrades
+export interface UserTrade {
+  orderId: number;
+  price: number;
+  qty: number;
+  commission: number;
+  commissionAsset: string;
+  // Realized PnL of this execution, 0 on opening fills
+  realizedPnl: number;
+  maker: boolean;
+  time: number;
+}
+
+export type ProtectiveOrderType = "STOP_MARKET" | "TAKE_PROFIT_MARKET";
+
+export interface DepthSnapshot {
+  lastUpdateId: number;
+  bids: [number, number][];
+  asks: [number, number][];
+}
+
 interface AccountBalance {
   asset: string;
   balance: number;
   availableBalance: number;
 }
 
-interface Position {
+// One tier of a symbol's leverage brackets: positions up to notionalCap can
+// use at most initialLeverage
+export interface LeverageBracket {
+  initialLeverage: number;
+  notionalFloor: number;
+  notionalCap: number;
+}
+
+export interface Position {
   symbol: string;
   positionAmt: number;
   entryPrice: number;
@@ -35,11 +67,14 @@ export class BinanceAPI {
   private apiSecret: string;
   private baseUrl = "https://fapi.binance.com";
   private isPaper: boolean;
+  // Symbol filters every order's price and quantity are rounded to
+  readonly exchangeInfo: ExchangeInfo;
   
   constructor(apiKey: string, apiSecret: string, isPaper = true) {
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
     this.isPaper = isPaper;
+    this.exchangeInfo = new ExchangeInfo(this);
     // Always use production API for real market data
     // Paper mode will skip actual order execution
   }
@@ -125,6 +160,42 @@ export class BinanceAPI {
     return usdt?.availableBalance || 0;
   }
   
+  // USDT wallet balance: deposits plus realized PnL, commission and funding,
+  // before unrealized PnL and margin in use
+  async getUsdtWalletBalance(): Promise<number> {
+    const balances = await this.getBalance();
+    const usdt = balances.find(b => b.asset === "USDT");
+    return usdt?.balance || 0;
+  }
+  
+  // User data stream key; valid for 60 minutes unless kept alive
+  async createListenKey(): Promise<string> {
+    const data = await this.request("POST", "/fapi/v1/listenKey");
+    return data.listenKey;
+  }
+  
+  // Extends the current listen key by 60 minutes; fails once it has expired
+  async keepAliveListenKey(): Promise<void> {
+    await this.request("PUT", "/fapi/v1/listenKey");
+  }
+  
+  async closeListenKey(): Promise<void> {
+    await this.request("DELETE", "/fapi/v1/listenKey");
+  }
+  
+  // Leverage brackets of every symbol for this account
+  async getLeverageBrackets(): Promise<Map<string, LeverageBracket[]>> {
+    const data = await this.request("GET", "/fapi/v1/leverageBracket", {}, true);
+    return new Map(data.map((s: any) => [
+      s.symbol,
+      s.brackets.map((b: any) => ({
+        initialLeverage: b.initialLeverage,
+        notionalFloor: b.notionalFloor,
+        notionalCap: b.notionalCap,
+      })),
+    ]));
+  }
+  
   // Get open positions
   async getPositions(): Promise<Position[]> {
     const data = await this.request("GET", "/fapi/v2/positionRisk", {}, true);
@@ -140,37 +211,34 @@ export class BinanceAPI {
       }));
   }
   
-  // Place market order - FAST execution
+  // Place market order - FAST execution. reduceOnly keeps exits from
+  // flipping the position if it is smaller than expected.
   async marketOrder(
     symbol: string,
     side: "BUY" | "SELL",
-    quantity: number
+    quantity: number,
+    reduceOnly = false
   ): Promise<OrderResult> {
     const startTime = Date.now();
     
-    const data = await this.request("POST", "/fapi/v1/order", {
+    const params: Record<string, string | number> = {
       symbol,
       side,
       type: "MARKET",
-      quantity: quantity.toFixed(3),
-    }, true);
+      quantity: this.exchangeInfo.formatQuantity(symbol, quantity),
+      // The default ACK response reports nothing executed yet
+      newOrderRespType: "RESULT",
+    };
+    if (reduceOnly) {
+      params.reduceOnly = "true";
+    }
+    
+    const data = await this.request("POST", "/fapi/v1/order", params, true);
     
     const latency = Date.now() - startTime;
     logger.info(`Market order executed in ${latency}ms: ${side} ${quantity} ${symbol}`);
     
-    return {
-      orderId: data.orderId,
-      symbol: data.symbol,
-      side: data.side,
-      positionSide: data.positionSide,
-      type: data.type,
-      price: parseFloat(data.price),
-      avgPrice: parseFloat(data.avgPrice),
-      origQty: parseFloat(data.origQty),
-      executedQty: parseFloat(data.executedQty),
-      status: data.status,
-      updateTime: data.updateTime,
-    };
+    return this.toOrderResult(data);
   }
   
   // Place limit order with IOC (Immediate-Or-Cancel) for speed
@@ -187,13 +255,93 @@ export class BinanceAPI {
       side,
       type: "LIMIT",
       timeInForce: "IOC",
-      quantity: quantity.toFixed(3),
-      price: price.toFixed(2),
+      quantity: this.exchangeInfo.formatQuantity(symbol, quantity),
+      price: this.exchangeInfo.formatPrice(symbol, price, side === "BUY" ? "down" : "up"),
+      newOrderRespType: "RESULT",
     }, true);
     
     const latency = Date.now() - startTime;
     logger.info(`IOC limit order in ${latency}ms: ${side} ${quantity} ${symbol} @ ${price}`);
     
+    return this.toOrderResult(data);
+  }
+  
+  // Post-only (GTX) limit order; the exchange expires it instead of letting
+  // it take liquidity, so status EXPIRED on return means it would have crossed
+  async postOnlyOrder(
+    symbol: string,
+    side: "BUY" | "SELL",
+    quantity: number,
+    price: number
+  ): Promise<OrderResult> {
+    const data = await this.request("POST", "/fapi/v1/order", {
+      symbol,
+      side,
+      type: "LIMIT",
+      timeInForce: "GTX",
+      quantity: this.exchangeInfo.formatQuantity(symbol, quantity),
+      price: this.exchangeInfo.formatPrice(symbol, price, side === "BUY" ? "down" : "up"),
+      newOrderRespType: "RESULT",
+    }, true);
+    
+    logger.info(`Post-only order ${data.status}: ${side} ${quantity} ${symbol} @ ${price}`);
+    return this.toOrderResult(data);
+  }
+  
+  // Reduce-only stop or take-profit that triggers a market order when the
+  // mark price reaches stopPrice; rests on the exchange until then
+  async protectiveOrder(
+    symbol: string,
+    side: "BUY" | "SELL",
+    type: ProtectiveOrderType,
+    stopPrice: number,
+    quantity: number
+  ): Promise<OrderResult> {
+    const data = await this.request("POST", "/fapi/v1/order", {
+      symbol,
+      side,
+      type,
+      stopPrice: this.exchangeInfo.formatPrice(symbol, stopPrice),
+      quantity: this.exchangeInfo.formatQuantity(symbol, quantity),
+      reduceOnly: "true",
+      workingType: "MARK_PRICE",
+    }, true);
+    
+    logger.info(`${type} placed: ${side} ${quantity} ${symbol} @ ${stopPrice.toFixed(2)} (order ${data.orderId})`);
+    return this.toOrderResult(data);
+  }
+  
+  async cancelOrder(symbol: string, orderId: number): Promise<OrderResult> {
+    const data = await this.request("DELETE", "/fapi/v1/order", { symbol, orderId }, true);
+    return this.toOrderResult(data);
+  }
+  
+  async getOrder(symbol: string, orderId: number): Promise<OrderResult> {
+    const data = await this.request("GET", "/fapi/v1/order", { symbol, orderId }, true);
+    return this.toOrderResult(data);
+  }
+  
+  async getOpenOrders(symbol: string): Promise<OrderResult[]> {
+    const data = await this.request("GET", "/fapi/v1/openOrders", { symbol }, true);
+    return data.map((order: any) => this.toOrderResult(order));
+  }
+  
+  // Executions of one order
+  async getUserTrades(symbol: string, orderId: number): Promise<UserTrade[]> {
+    const data = await this.request("GET", "/fapi/v1/userTrades", { symbol, orderId }, true);
+    return data.map((t: any) => ({
+      orderId: t.orderId,
+      price: parseFloat(t.price),
+      qty: parseFloat(t.qty),
+      commission: parseFloat(t.commission),
+      commissionAsset: t.commissionAsset,
+      realizedPnl: parseFloat(t.realizedPnl),
+      maker: t.maker,
+      time: t.time,
+    }));
+  }
+  
+  private toOrderResult(data: any): OrderResult {
     return {
       orderId: data.orderId,
       symbol: data.symbol,
@@ -201,6 +349,7 @@ export class BinanceAPI {
       positionSide: data.positionSide,
       type: data.type,
       price: parseFloat(data.price),
+      stopPrice: parseFloat(data.stopPrice ?? "0"),
       avgPrice: parseFloat(data.avgPrice),
       origQty: parseFloat(data.origQty),
       executedQty: parseFloat(data.executedQty),
@@ -222,14 +371,54 @@ export class BinanceAPI {
     }
   }
   
-  // Get symbol info for precision
-  async getSymbolInfo(symbol: string): Promise<{ pricePrecision: number; quantityPrecision: number }> {
-    const data = await this.request("GET", "/fapi/v1/exchangeInfo", {});
-    const symbolInfo = data.symbols.find((s: any) => s.symbol === symbol);
+  // Order book snapshot used to seed the local L2 book (public, unsigned)
+  async getDepthSnapshot(symbol: string, limit = 500): Promise<DepthSnapshot> {
+    const data = await this.request("GET", "/fapi/v1/depth", { symbol, limit });
+    const levels = (rows: [string, string][]) =>
+      rows.map(([price, qty]) => [parseFloat(price), parseFloat(qty)] as [number, number]);
     
     return {
-      pricePrecision: symbolInfo?.pricePrecision || 2,
-      quantityPrecision: symbolInfo?.quantityPrecision || 3,
+      lastUpdateId: data.lastUpdateId,
+      bids: levels(data.bids),
+      asks: levels(data.asks),
     };
   }
+  
+  // Last price (public, unsigned)
+  async getTickerPrice(symbol: string): Promise<number> {
+    const data = await this.request("GET", "/fapi/v1/ticker/price", { symbol });
+    return parseFloat(data.price);
+  }
+  
+  // Open interest in contracts (public, unsigned)
+  async getOpenInterest(symbol: string): Promise<number> {
+    const data = await this.request("GET", "/fapi/v1/openInterest", { symbol });
+    return parseFloat(data.openInterest);
+  }
+  
+  // Price and quantity filters of every USDT-M symbol (public, unsigned)
+  async getExchangeInfo(): Promise<SymbolFilters[]> {
+    const data = await this.request("GET", "/fapi/v1/exchangeInfo", {});
+    return data.symbols.map((s: any) => {
+      const filter = (type: string) => s.filters.find((f: any) => f.filterType === type) ?? {};
+      const price = filter("PRICE_FILTER");
+      const lot = filter("LOT_SIZE");
+      const marketLot = filter("MARKET_LOT_SIZE");
+      const notional = filter("MIN_NOTIONAL");
+      
+      return {
+        symbol: s.symbol,
+        tickSize: parseFloat(price.tickSize ?? "0.01"),
+        minPrice: parseFloat(price.minPrice ?? "0"),
+        maxPrice: parseFloat(price.maxPrice ?? "0") || Infinity,
+        stepSize: parseFloat(lot.stepSize ?? "0.001"),
+        minQty: parseFloat(lot.minQty ?? "0"),
+        maxQty: parseFloat(lot.maxQty ?? "0") || Infinity,
+        marketMaxQty: parseFloat(marketLot.maxQty ?? "0") || Infinity,
+        minNotional: parseFloat(notional.notional ?? "0"),
+        priceDecimals: stepDecimals(price.tickSize ?? "0.01"),
+        quantityDecimals: stepDecimals(lot.stepSize ?? "0.001"),
+      };
+    });
+  }
 }
@@ -2,7 +2,7 @@ import WebSocket from "ws";
 import { EventEmitter } from "events";
 import { logger } from "./logger";
 
-interface LiquidationData {
+export interface LiquidationData {
   symbol: string;
   side: "BUY" | "SELL";
   price: number;
@@ -19,6 +19,27 @@ interface TradeData {
   timestamp: number;
 }
 
+// One @depth@100ms diff. Updates chain by prevFinalUpdateId (pu) == the
+// previous event's finalUpdateId (u); a break means events were missed.
+export interface DepthUpdate {
+  symbol: string;
+  firstUpdateId: number;
+  finalUpdateId: number;
+  prevFinalUpdateId: number;
+  bids: [number, number][];
+  asks: [number, number][];
+  timestamp: number;
+}
+
+export interface FundingData {
+  symbol: string;
+  markPrice: number;
+  // Rate for the current 8h period; positive means longs pay shorts
+  fundingRate: number;
+  nextFundingTime: number;
+  timestamp: number;
+}
+
 interface BookTickerData {
   symbol: string;
   bidPrice: number;
@@ -40,6 +61,7 @@ export class BinanceWebSocket extends EventEmitter {
   // Price cache for fast access
   private prices: Map<string, number> = new Map();
   private bookTickers: Map<string, BookTickerData> = new Map();
+  private funding: Map<string, FundingData> = new Map();
   private priceHistory: Map<string, { price: number; timestamp: number }[]> = new Map();
   
   constructor(symbols: string[] = ["BTCUSDT", "ETHUSDT"]) {
@@ -52,6 +74,8 @@ export class BinanceWebSocket extends EventEmitter {
       .map(s => [
         `${s.toLowerCase()}@aggTrade`,
         `${s.toLowerCase()}@bookTicker`,
+        `${s.toLowerCase()}@depth@100ms`,
+        `${s.toLowerCase()}@markPrice@1s`,
       ])
       .flat()
       .concat(["!forceOrder@arr"]); // Liquidation stream
@@ -158,6 +182,34 @@ export class BinanceWebSocket extends EventEmitter {
       this.prices.set(ticker.symbol, (ticker.bidPrice + ticker.askPrice) / 2);
       this.emit("bookTicker", ticker);
     }
+    
+    // Mark price - funding rate and next settlement
+    if (stream.includes("@markPrice")) {
+      const funding: FundingData = {
+        symbol: payload.s,
+        markPrice: parseFloat(payload.p),
+        fundingRate: parseFloat(payload.r),
+        nextFundingTime: payload.T,
+        timestamp: payload.E,
+      };
+      this.funding.set(funding.symbol, funding);
+    }
+    
+    // L2 diffs - applied to the local book by OrderBookManager
+    if (stream.includes("@depth")) {
+      const levels = (rows: [string, string][]) =>
+        rows.map(([price, qty]) => [parseFloat(price), parseFloat(qty)] as [number, number]);
+      const update: DepthUpdate = {
+        symbol: payload.s,
+        firstUpdateId: payload.U,
+        finalUpdateId: payload.u,
+        prevFinalUpdateId: payload.pu,
+        bids: levels(payload.b),
+        asks: levels(payload.a),
+        timestamp: payload.E,
+      };
+      this.emit("depth", update);
+    }
   }
   
   getPrice(symbol: string): number | undefined {
@@ -168,6 +220,10 @@ export class BinanceWebSocket extends EventEmitter {
     return this.bookTickers.get(symbol);
   }
   
+  getFunding(symbol: string): FundingData | undefined {
+    return this.funding.get(symbol);
+  }
+  
   getSpreadBps(symbol: string): number {
     const ticker = this.bookTickers.get(symbol);
     if (!ticker) return 999;
@@ -201,50 +257,6 @@ export class BinanceWebSocket extends EventEmitter {
     return ((currentPrice - oldestPrice) / oldestPrice) * 100;
   }
   
-  // Count "exhaustion candles" - approximated by price reversals
-  // This is a simplified version: counts how many times price direction changed
-  getExhaustionCandles(symbol: string): number {
-    const history = this.priceHistory.get(symbol) || [];
-    if (history.length < 3) return 0;
-    
-    // Look at last 60 seconds of data, sample every ~20 seconds
-    const now = Date.now();
-    const samples: number[] = [];
-    const intervals = [0, 20000, 40000, 60000];
-    
-    for (const offset of intervals) {
-      const targetTime = now - offset;
-      let closest: { price: number; timestamp: number } | null = null;
-      let minDiff = Infinity;
-      
-      for (const entry of history) {
-        const diff = Math.abs(entry.timestamp - targetTime);
-        if (diff < minDiff) {
-          minDiff = diff;
-          closest = entry;
-        }
-      }
-      
-      if (closest && minDiff < 10000) {
-        samples.push(closest.price);
-      }
-    }
-    
-    if (samples.length < 3) return 0;
-    
-    // Count direction reversals (exhaustion indicator)
-    let reversals = 0;
-    for (let i = 2; i < samples.length; i++) {
-      const prev = samples[i - 1] - samples[i - 2];
-      const curr = samples[i] - samples[i - 1];
-      if ((prev > 0 && curr < 0) || (prev < 0 && curr > 0)) {
-        reversals++;
-      }
-    }
-    
-    return reversals;
-  }
-  
   private startPingInterval() {
     this.pingInterval = setInterval(() => {
       if (this.ws?.readyState === WebSocket.OPEN) {
@@ -0,0 +1,175 @@
+export type CandleInterval = "1s" | "5s" | "15s" | "1m";
+
+export interface Candle {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  quoteVolume: number;
+  trades: number;
+}
+
+interface TradeTick {
+  symbol: string;
+  price: number;
+  quantity: number;
+  timestamp: number;
+}
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  "1s": 1000,
+  "5s": 5000,
+  "15s": 15000,
+  "1m": 60000,
+};
+
+// Bars kept per symbol and interval. 1s bars double as the notional
+// volume history behind the volume baseline, so they are kept for an hour.
+const MAX_CANDLES: Record<CandleInterval, number> = {
+  "1s": 3600,
+  "5s": 720,
+  "15s": 240,
+  "1m": 240,
+};
+
+const INTERVALS = Object.keys(INTERVAL_MS) as CandleInterval[];
+
+// Builds OHLCV bars per symbol from aggTrade ticks. Bars are sparse:
+// an interval with no trades produces no candle.
+export class CandleBuilder {
+  private candles: Map<string, Candle[]> = new Map();
+
+  addTrade(trade: TradeTick) {
+    for (const interval of INTERVALS) {
+      const key = `${trade.symbol}:${interval}`;
+      const bars = this.candles.get(key) || [];
+      const openTime = Math.floor(trade.timestamp / INTERVAL_MS[interval]) * INTERVAL_MS[interval];
+      const last = bars[bars.length - 1];
+
+      if (last && last.openTime === openTime) {
+        last.high = Math.max(last.high, trade.price);
+        last.low = Math.min(last.low, trade.price);
+        last.close = trade.price;
+        last.volume += trade.quantity;
+        last.quoteVolume += trade.quantity * trade.price;
+        last.trades++;
+      } else if (!last || openTime > last.openTime) {
+        bars.push({
+          openTime,
+          open: trade.price,
+          high: trade.price,
+          low: trade.price,
+          close: trade.price,
+          volume: trade.quantity,
+          quoteVolume: trade.quantity * trade.price,
+          trades: 1,
+        });
+        if (bars.length > MAX_CANDLES[interval]) {
+          bars.shift();
+        }
+      }
+      // Ticks older than the current bar (out-of-order delivery) are dropped
+
+      this.candles.set(key, bars);
+    }
+  }
+
+  // Closed candles only, oldest first
+  getCandles(symbol: string, interval: CandleInterval, count?: number): Candle[] {
+    const bars = this.candles.get(`${symbol}:${interval}`) || [];
+    const now = Date.now();
+    const closed = bars.filter(b => b.openTime + INTERVAL_MS[interval] <= now);
+    return count ? closed.slice(-count) : closed;
+  }
+
+  // Traded notional (USD) between fromMs and toMs, from 1s bars including the one still forming
+  getQuoteVolume(symbol: string, fromMs: number, toMs: number): number {
+    const bars = this.candles.get(`${symbol}:1s`) || [];
+    let total = 0;
+    for (const bar of bars) {
+      if (bar.openTime >= fromMs && bar.openTime < toMs) {
+        total += bar.quoteVolume;
+      }
+    }
+    return total;
+  }
+
+  // Average notional per period over up to `periods` back-to-back periods of
+  // periodMs ending at endMs. Periods reaching back before the retained
+  // history are skipped rather than counted as zero volume.
+  getVolumeBaseline(symbol: string, endMs: number, periodMs: number, periods: number): number {
+    const bars = this.candles.get(`${symbol}:1s`) || [];
+    if (bars.length === 0) return 0;
+
+    const historyStart = bars[0].openTime;
+    let total = 0;
+    let covered = 0;
+
+    for (let i = 0; i < periods; i++) {
+      const to = endMs - i * periodMs;
+      const from = to - periodMs;
+      if (from < historyStart) break;
+      total += this.getQuoteVolume(symbol, from, to);
+      covered++;
+    }
+
+    return covered > 0 ? total / covered : 0;
+  }
+
+  // Average true range over the last `period` closed bars, 0 until enough history exists
+  getAtr(symbol: string, interval: CandleInterval, period = 14): number {
+    const bars = this.getCandles(symbol, interval, period + 1);
+    if (bars.length < period + 1) return 0;
+
+    let total = 0;
+    for (let i = 1; i < bars.length; i++) {
+      const prevClose = bars[i - 1].close;
+      total += Math.max(
+        bars[i].high - bars[i].low,
+        Math.abs(bars[i].high - prevClose),
+        Math.abs(bars[i].low - prevClose),
+      );
+    }
+    return total / period;
+  }
+
+  // Standard deviation of close-to-close log returns over the last `period`
+  // closed bars, as a fraction of price. 0 until enough history exists.
+  getRealizedVol(symbol: string, interval: CandleInterval, period = 14): number {
+    const bars = this.getCandles(symbol, interval, period + 1);
+    if (bars.length < period + 1) return 0;
+
+    const returns: number[] = [];
+    for (let i = 1; i < bars.length; i++) {
+      returns.push(Math.log(bars[i].close / bars[i - 1].close));
+    }
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    return Math.sqrt(variance);
+  }
+
+  // Counts consecutive exhaustion candles ending at the latest closed bar.
+  // For a push in `direction`, a candle is an exhaustion candle when, compared
+  // with the candle before it, it fails to make a new extreme (no lower low
+  // for DOWN, no higher high for UP) while both its range and volume shrink.
+  countExhaustionCandles(symbol: string, interval: CandleInterval, direction: "UP" | "DOWN", lookback = 10): number {
+    const bars = this.getCandles(symbol, interval, lookback + 1);
+    let count = 0;
+
+    for (let i = bars.length - 1; i > 0; i--) {
+      const curr = bars[i];
+      const prev = bars[i - 1];
+
+      const noNewExtreme = direction === "DOWN" ? curr.low >= prev.low : curr.high <= prev.high;
+      const rangeShrinking = curr.high - curr.low < prev.high - prev.low;
+      const volumeShrinking = curr.volume < prev.volume;
+
+      if (!(noNewExtreme && rangeShrinking && volumeShrinking)) break;
+      count++;
+    }
+
+    return count;
+  }
+}
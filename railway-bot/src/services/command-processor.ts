@@ -0,0 +1,104 @@
+import { db } from "../db";
+import { botCommands } from "../db/schema";
+import { eq, asc } from "drizzle-orm";
+import { logger } from "./logger";
+
+type CommandName = "pause" | "resume" | "flatten" | "override";
+
+// The subset of the strategy that dashboard commands are allowed to drive
+interface CommandTarget {
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  flatten(): Promise<void>;
+  overrideRiskPause(): Promise<void>;
+  readonly hasOpenTrade: boolean;
+}
+
+export class CommandProcessor {
+  private target: CommandTarget;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(target: CommandTarget) {
+    this.target = target;
+  }
+
+  start(intervalMs = 1000) {
+    this.pollInterval = setInterval(() => {
+      this.processPending();
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private async processPending() {
+    // Skip the tick if the previous batch (e.g. a slow flatten) is still running
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const pending = await db.select()
+        .from(botCommands)
+        .where(eq(botCommands.status, "PENDING"))
+        .orderBy(asc(botCommands.id));
+
+      for (const command of pending) {
+        await this.execute(command.id, command.command);
+      }
+    } catch (err) {
+      logger.warn("Could not read pending commands", String(err));
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async execute(id: number, command: string) {
+    logger.info(`Executing dashboard command #${id}: ${command}`);
+
+    try {
+      const result = await this.run(command as CommandName);
+      await this.acknowledge(id, "ACKNOWLEDGED", result);
+      logger.info(`Command #${id} (${command}) acknowledged`, result);
+    } catch (err) {
+      await this.acknowledge(id, "FAILED", String(err));
+      logger.error(`Command #${id} (${command}) failed`, String(err));
+    }
+  }
+
+  private async run(command: CommandName): Promise<string> {
+    switch (command) {
+      case "pause":
+        await this.target.pause();
+        return "Trading paused";
+      case "resume":
+        await this.target.resume();
+        return "Trading resumed";
+      case "flatten":
+        await this.target.flatten();
+        if (this.target.hasOpenTrade) {
+          throw new Error("Position still open after flatten");
+        }
+        return "All positions closed, trading paused";
+      case "override":
+        await this.target.overrideRiskPause();
+        return "Risk-limit pause overridden";
+      default:
+        throw new Error(`Unknown command: ${command}`);
+    }
+  }
+
+  private async acknowledge(id: number, status: "ACKNOWLEDGED" | "FAILED", result: string) {
+    await db.update(botCommands)
+      .set({
+        status,
+        result,
+        acknowledgedAt: new Date(),
+      })
+      .where(eq(botCommands.id, id));
+  }
+}
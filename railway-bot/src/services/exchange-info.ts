@@ -0,0 +1,146 @@
+import type { BinanceAPI } from "./binance-api";
+import { logger } from "./logger";
+
+// Trading rules for one symbol from /fapi/v1/exchangeInfo
+export interface SymbolFilters {
+  symbol: string;
+  // PRICE_FILTER
+  tickSize: number;
+  minPrice: number;
+  maxPrice: number;
+  // LOT_SIZE (limit and stop orders)
+  stepSize: number;
+  minQty: number;
+  maxQty: number;
+  // MARKET_LOT_SIZE
+  marketMaxQty: number;
+  // MIN_NOTIONAL (quantity x price); reduce-only orders are exempt
+  minNotional: number;
+  priceDecimals: number;
+  quantityDecimals: number;
+}
+
+export type PriceRounding = "down" | "up" | "nearest";
+
+// Exchange info changes rarely (new listings, filter updates)
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+// Absorbs float error so a value already on the grid stays on it
+const GRID_EPSILON = 1e-9;
+
+// Used for a symbol until its filters have loaded; matches the fixed 3 / 2
+// decimals orders were sent with before filters were applied
+const FALLBACK_FILTERS: Omit<SymbolFilters, "symbol"> = {
+  tickSize: 0.01,
+  minPrice: 0,
+  maxPrice: Infinity,
+  stepSize: 0.001,
+  minQty: 0.001,
+  maxQty: Infinity,
+  marketMaxQty: Infinity,
+  minNotional: 0,
+  priceDecimals: 2,
+  quantityDecimals: 3,
+};
+
+// Caches each symbol's price and quantity filters so orders can be put on the
+// exchange's grid before they are sent: quantities are rounded down to the
+// step size (never more size than was asked for), prices to the tick size.
+export class ExchangeInfo {
+  private api: BinanceAPI;
+  private filters: Map<string, SymbolFilters> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private warned: Set<string> = new Set();
+
+  constructor(api: BinanceAPI) {
+    this.api = api;
+  }
+
+  async start() {
+    await this.refresh();
+    this.timer = setInterval(() => this.refresh(), REFRESH_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get(symbol: string): SymbolFilters {
+    const filters = this.filters.get(symbol);
+    if (filters) return filters;
+
+    if (!this.warned.has(symbol)) {
+      this.warned.add(symbol);
+      logger.warn(`No exchange filters for ${symbol}, using ${FALLBACK_FILTERS.quantityDecimals} quantity / ${FALLBACK_FILTERS.priceDecimals} price decimals`);
+    }
+    return { symbol, ...FALLBACK_FILTERS };
+  }
+
+  // Rounds down to the step size
+  quantity(symbol: string, quantity: number): number {
+    const { stepSize, quantityDecimals } = this.get(symbol);
+    const steps = Math.floor(quantity / stepSize + GRID_EPSILON);
+    return Number((Math.max(0, steps) * stepSize).toFixed(quantityDecimals));
+  }
+
+  // Rounds to the tick size. Limit orders round away from the market ("down"
+  // for a BUY, "up" for a SELL) so rounding never makes them more aggressive.
+  price(symbol: string, price: number, rounding: PriceRounding = "nearest"): number {
+    const { tickSize, priceDecimals } = this.get(symbol);
+    const ticks = price / tickSize;
+    const rounded = rounding === "down"
+      ? Math.floor(ticks + GRID_EPSILON)
+      : rounding === "up"
+        ? Math.ceil(ticks - GRID_EPSILON)
+        : Math.round(ticks);
+    return Number((rounded * tickSize).toFixed(priceDecimals));
+  }
+
+  formatQuantity(symbol: string, quantity: number): string {
+    return this.quantity(symbol, quantity).toFixed(this.get(symbol).quantityDecimals);
+  }
+
+  formatPrice(symbol: string, price: number, rounding: PriceRounding = "nearest"): string {
+    return this.price(symbol, price, rounding).toFixed(this.get(symbol).priceDecimals);
+  }
+
+  // Why the exchange would reject an opening order of `quantity` at about
+  // `price`, or null if it passes the filters. Quantity should already be
+  // on the step grid.
+  rejection(symbol: string, quantity: number, price: number, market = true): string | null {
+    const filters = this.get(symbol);
+    const maxQty = market ? filters.marketMaxQty : filters.maxQty;
+
+    if (quantity < filters.minQty) {
+      return `Size ${quantity} below min qty ${filters.minQty}`;
+    }
+    if (quantity > maxQty) {
+      return `Size ${quantity} above max qty ${maxQty}`;
+    }
+    const notional = quantity * price;
+    if (notional < filters.minNotional) {
+      return `Notional $${notional.toFixed(2)} below min notional $${filters.minNotional}`;
+    }
+    return null;
+  }
+
+  private async refresh() {
+    try {
+      const symbols = await this.api.getExchangeInfo();
+      for (const filters of symbols) {
+        this.filters.set(filters.symbol, filters);
+      }
+      logger.info(`Exchange filters loaded for ${symbols.length} symbols`);
+    } catch (err) {
+      logger.warn("Failed to load exchange info", String(err));
+    }
+  }
+}
+
+// Decimal places in a filter value as Binance sends it, e.g. "0.00100000" -> 3
+export function stepDecimals(step: string): number {
+  const fraction = step.split(".")[1]?.replace(/0+$/, "") ?? "";
+  return fraction.length;
+}
@@ -0,0 +1,192 @@
+import type { BinanceAPI } from "./binance-api";
+import type { BinanceWebSocket } from "./binance-ws";
+import { combineFills, modelFill, type FeeRates, type FillLedger, type OrderFill } from "./fills";
+import { logger } from "./logger";
+import type { Config } from "../strategies/types";
+
+type EntrySettings = Pick<Config, "entryMode" | "entryOffsetBps" | "entryFillTimeoutMs" | "useMarketIfNotFilled"> & FeeRates;
+
+export interface EntryOrder {
+  symbol: string;
+  side: "BUY" | "SELL";
+  quantity: number;
+  settings: EntrySettings;
+}
+
+// The limit and market legs combined: VWAP price (0 when nothing filled),
+// total quantity and commission
+export interface EntryFill extends OrderFill {
+  // Share of the requested size filled by the limit order (1 for MARKET)
+  fillRatio: number;
+  timeToFillMs: number;
+  // Mode used, with "+MARKET" when the remainder went to market
+  mode: string;
+  // The market fallback failed or its fill could not be confirmed, so the
+  // exchange may hold more than `quantity`
+  unconfirmed: boolean;
+}
+
+// Remainders under this share of the order are not worth a market order
+const MIN_REMAINDER_FRACTION = 0.01;
+// How often a resting post-only order is checked
+const POLL_MS = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Works entry orders in the configured mode. In paper mode fills are
+// simulated from the book ticker: IOC fills up to the size at the touch,
+// post-only fills if the far side of the book reaches the order's price
+// before the timeout, and market fills at mid with 0.01-0.03% slippage.
+export class EntryExecutor {
+  private api: BinanceAPI;
+  private ws: BinanceWebSocket;
+  private ledger: FillLedger;
+
+  constructor(api: BinanceAPI, ws: BinanceWebSocket, ledger: FillLedger) {
+    this.api = api;
+    this.ws = ws;
+    this.ledger = ledger;
+  }
+
+  async execute(order: EntryOrder, isLive: boolean): Promise<EntryFill> {
+    const { symbol, side, quantity, settings } = order;
+    const startTime = Date.now();
+
+    if (settings.entryMode === "MARKET") {
+      const fill = await this.market(symbol, side, quantity, settings, isLive);
+      return this.summarize([fill], quantity, fill.quantity, startTime, "MARKET", false);
+    }
+
+    const limit = settings.entryMode === "IOC"
+      ? await this.ioc(symbol, side, quantity, settings, isLive)
+      : await this.postOnly(symbol, side, quantity, settings, isLive);
+
+    const legs = [limit];
+    let mode: string = settings.entryMode;
+    let unconfirmed = false;
+    const remainder = this.api.exchangeInfo.quantity(symbol, quantity - limit.quantity);
+    if (remainder > quantity * MIN_REMAINDER_FRACTION) {
+      // A remainder under the exchange's minimum size or notional cannot be sent
+      const rejection = this.api.exchangeInfo.rejection(symbol, remainder, this.ws.getPrice(symbol) ?? limit.price);
+      if (settings.useMarketIfNotFilled && !rejection) {
+        try {
+          legs.push(await this.market(symbol, side, remainder, settings, isLive));
+          mode += "+MARKET";
+        } catch (err) {
+          // Nothing filled at all: the entry failed. Otherwise the limit fill
+          // is a position and has to be returned so it gets managed.
+          if (limit.quantity <= 0) throw err;
+          unconfirmed = true;
+          logger.error(`${symbol} market fallback for ${remainder.toFixed(4)} failed, keeping the ${limit.quantity.toFixed(4)} ${settings.entryMode} fill`, String(err));
+        }
+      } else {
+        logger.info(`${symbol} ${settings.entryMode} entry filled ${limit.quantity.toFixed(4)} of ${quantity.toFixed(4)}, remainder dropped${rejection ? ` (${rejection})` : ""}`);
+      }
+    }
+
+    return this.summarize(legs, quantity, limit.quantity, startTime, mode, unconfirmed);
+  }
+
+  private summarize(legs: OrderFill[], requested: number, limitQty: number, startTime: number, mode: string, unconfirmed: boolean): EntryFill {
+    return {
+      ...combineFills(legs),
+      fillRatio: requested > 0 ? limitQty / requested : 0,
+      timeToFillMs: Date.now() - startTime,
+      mode,
+      unconfirmed,
+    };
+  }
+
+  private async market(symbol: string, side: "BUY" | "SELL", quantity: number, rates: FeeRates, isLive: boolean): Promise<OrderFill> {
+    if (isLive) {
+      const order = await this.api.marketOrder(symbol, side, quantity);
+      return this.ledger.fillOf(order, false, rates);
+    }
+
+    const price = this.ws.getPrice(symbol) ?? 0;
+    const slippage = 0.01 + Math.random() * 0.02;
+    const avgPrice = side === "BUY" ? price * (1 + slippage / 100) : price * (1 - slippage / 100);
+    logger.info(`[PAPER] Simulated market ${side} ${quantity.toFixed(4)} ${symbol} @ ${avgPrice.toFixed(2)} (simulated slippage: ${slippage.toFixed(3)}%)`);
+    return modelFill(avgPrice, quantity, false, rates);
+  }
+
+  // Limit at the touch plus offsetBps (BUY) or minus it (SELL); whatever does
+  // not fill straight away is cancelled by the exchange
+  private async ioc(symbol: string, side: "BUY" | "SELL", quantity: number, settings: EntrySettings, isLive: boolean): Promise<OrderFill> {
+    const ticker = this.ws.getBookTicker(symbol);
+    if (!ticker) return modelFill(0, 0, false, settings);
+    const offsetBps = settings.entryOffsetBps;
+
+    const touch = side === "BUY" ? ticker.askPrice : ticker.bidPrice;
+    const price = this.api.exchangeInfo.price(
+      symbol,
+      side === "BUY" ? touch * (1 + offsetBps / 10000) : touch * (1 - offsetBps / 10000),
+      side === "BUY" ? "down" : "up",
+    );
+
+    if (isLive) {
+      const order = await this.api.limitOrderIOC(symbol, side, quantity, price);
+      return this.ledger.fillOf(order, false, settings);
+    }
+
+    const filled = this.api.exchangeInfo.quantity(symbol, Math.min(quantity, side === "BUY" ? ticker.askQty : ticker.bidQty));
+    logger.info(`[PAPER] Simulated IOC ${side} ${filled.toFixed(4)}/${quantity.toFixed(4)} ${symbol} @ ${touch.toFixed(2)} (limit ${price.toFixed(2)})`);
+    return modelFill(touch, filled, false, settings);
+  }
+
+  // Limit resting offsetBps behind the touch (below the bid for BUY, above the
+  // ask for SELL) for up to timeoutMs, then cancelled
+  private async postOnly(
+    symbol: string,
+    side: "BUY" | "SELL",
+    quantity: number,
+    settings: EntrySettings,
+    isLive: boolean,
+  ): Promise<OrderFill> {
+    const ticker = this.ws.getBookTicker(symbol);
+    if (!ticker) return modelFill(0, 0, true, settings);
+    const offsetBps = settings.entryOffsetBps;
+    const timeoutMs = settings.entryFillTimeoutMs;
+
+    const price = this.api.exchangeInfo.price(
+      symbol,
+      side === "BUY" ? ticker.bidPrice * (1 - offsetBps / 10000) : ticker.askPrice * (1 + offsetBps / 10000),
+      side === "BUY" ? "down" : "up",
+    );
+    const deadline = Date.now() + timeoutMs;
+
+    if (!isLive) {
+      while (Date.now() < deadline) {
+        const book = this.ws.getBookTicker(symbol);
+        const reached = book && (side === "BUY" ? book.askPrice <= price : book.bidPrice >= price);
+        if (reached) {
+          logger.info(`[PAPER] Simulated post-only ${side} ${quantity.toFixed(4)} ${symbol} filled @ ${price.toFixed(2)}`);
+          return modelFill(price, quantity, true, settings);
+        }
+        await sleep(POLL_MS);
+      }
+      logger.info(`[PAPER] Simulated post-only ${side} ${symbol} @ ${price.toFixed(2)} not filled in ${timeoutMs}ms`);
+      return modelFill(price, 0, true, settings);
+    }
+
+    let order = await this.api.postOnlyOrder(symbol, side, quantity, price);
+    const orderId = order.orderId;
+    // A failed poll is retried until the deadline; the order is cancelled below either way
+    while (order.status !== "FILLED" && order.status !== "EXPIRED" && Date.now() < deadline) {
+      await sleep(POLL_MS);
+      try {
+        order = await this.api.getOrder(symbol, orderId);
+      } catch (err) {
+        logger.warn(`Could not check ${symbol} post-only order ${orderId}`, String(err));
+      }
+    }
+
+    if (order.status !== "FILLED" && order.status !== "EXPIRED") {
+      // A fill can land between the last poll and the cancel; the cancel then fails
+      order = await this.api.cancelOrder(symbol, orderId)
+        .catch(() => this.api.getOrder(symbol, orderId));
+    }
+
+    return this.ledger.fillOf(order, true, settings);
+  }
+}
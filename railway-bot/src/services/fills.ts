@@ -0,0 +1,170 @@
+import type { BinanceAPI, OrderResult, UserTrade } from "./binance-api";
+import { logger } from "./logger";
+import type { Config } from "../strategies/types";
+
+// What one order (or several, combined) actually executed
+export interface OrderFill {
+  // VWAP over the executions
+  price: number;
+  quantity: number;
+  // Commission in commissionAsset, and its USDT value
+  commission: number;
+  commissionAsset: string;
+  fees: number;
+  // As Binance reports it (0 on opening fills); null when the fill was not
+  // read from the exchange and PnL has to be worked out from the price
+  realizedPnl: number | null;
+  orderId: number | null;
+}
+
+export type FeeRates = Pick<Config, "paperMakerFeePct" | "paperTakerFeePct">;
+
+// userTrades can lag the order response by a moment
+const LOOKUP_ATTEMPTS = 3;
+// How long executions pushed by the user data stream are kept for lookups
+const EXECUTION_TTL_MS = 10 * 60 * 1000;
+const LOOKUP_RETRY_MS = 250;
+// Order states after which nothing more executes
+const FINAL_STATUSES = ["FILLED", "CANCELED", "EXPIRED", "REJECTED"];
+// Settlement assets commission is charged in at face value
+const USD_ASSETS = ["USDT", "USDC", "FDUSD"];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A fill priced with the paper fee model: taker unless `maker` is set
+export function modelFill(price: number, quantity: number, maker: boolean, rates: FeeRates, orderId: number | null = null): OrderFill {
+  const fees = price * quantity * (maker ? rates.paperMakerFeePct : rates.paperTakerFeePct);
+  return { price, quantity, commission: fees, commissionAsset: "USDT", fees, realizedPnl: null, orderId };
+}
+
+// A fill booked without an order, e.g. for a position the exchange no longer
+// holds; no commission
+export function bookedFill(price: number, quantity: number): OrderFill {
+  return { price, quantity, commission: 0, commissionAsset: "USDT", fees: 0, realizedPnl: null, orderId: null };
+}
+
+function covers(executions: UserTrade[], expectedQty: number): boolean {
+  const quantity = executions.reduce((sum, t) => sum + t.qty, 0);
+  return executions.length > 0 && quantity >= expectedQty * (1 - 1e-9);
+}
+
+// Sums fills into one: VWAP price and total quantity, commission and PnL.
+// Legs that filled nothing are left out.
+export function combineFills(legs: OrderFill[]): OrderFill {
+  const fills = legs.filter(f => f.quantity > 0);
+  if (fills.length === 0) {
+    return bookedFill(0, 0);
+  }
+  const quantity = fills.reduce((sum, f) => sum + f.quantity, 0);
+  const notional = fills.reduce((sum, f) => sum + f.price * f.quantity, 0);
+  const assets = new Set(fills.map(f => f.commissionAsset));
+  return {
+    price: notional / quantity,
+    quantity,
+    // Amounts in different assets cannot be added; fees carries the total
+    commission: assets.size === 1 ? fills.reduce((sum, f) => sum + f.commission, 0) : 0,
+    commissionAsset: assets.size === 1 ? fills[0].commissionAsset : "MIXED",
+    fees: fills.reduce((sum, f) => sum + f.fees, 0),
+    realizedPnl: fills.every(f => f.realizedPnl !== null)
+      ? fills.reduce((sum, f) => sum + (f.realizedPnl ?? 0), 0)
+      : null,
+    orderId: fills.length === 1 ? fills[0].orderId : null,
+  };
+}
+
+// Reads what live orders executed at, the commission charged and Binance's
+// realized PnL. Executions pushed by the user data stream are used when they
+// cover the order; otherwise they are fetched from /fapi/v1/userTrades.
+export class FillLedger {
+  private api: BinanceAPI;
+  // Last USDT price of each non-USD commission asset (e.g. BNB)
+  private assetPrices: Map<string, number> = new Map();
+  private executions: Map<number, UserTrade[]> = new Map();
+
+  constructor(api: BinanceAPI) {
+    this.api = api;
+  }
+
+  // An execution reported by the user data stream
+  addExecution(execution: UserTrade) {
+    const cutoff = Date.now() - EXECUTION_TTL_MS;
+    for (const [orderId, trades] of this.executions) {
+      if (trades[trades.length - 1].time < cutoff) this.executions.delete(orderId);
+    }
+    const trades = this.executions.get(execution.orderId) ?? [];
+    trades.push(execution);
+    this.executions.set(execution.orderId, trades);
+  }
+
+  // What a live order executed, from its trades; falls back to the order's
+  // average price and modelled commission if they cannot be read. A market
+  // order or one still open that reports nothing executed (e.g. an ACK
+  // response) is looked up by its ID first and re-read from the exchange;
+  // throws if it still cannot be settled, since it may well have filled.
+  async fillOf(order: OrderResult, maker: boolean, rates: FeeRates): Promise<OrderFill> {
+    let settled = order;
+    if (order.executedQty <= 0 && (order.type === "MARKET" || !FINAL_STATUSES.includes(order.status))) {
+      const streamed = await this.orderFill(order.symbol, order.orderId, order.origQty);
+      if (streamed) return streamed;
+      settled = await this.api.getOrder(order.symbol, order.orderId).catch(() => order);
+      if (settled.executedQty <= 0 && !FINAL_STATUSES.includes(settled.status)) {
+        throw new Error(`${order.symbol} order ${order.orderId} is ${settled.status}, fill could not be confirmed`);
+      }
+    }
+    if (settled.executedQty <= 0) return modelFill(settled.avgPrice, 0, maker, rates, settled.orderId);
+
+    const fill = await this.orderFill(settled.symbol, settled.orderId, settled.executedQty);
+    if (fill) return fill;
+    logger.warn(`${settled.symbol} order ${settled.orderId} fills unavailable, using its average price and modelled commission`);
+    return modelFill(settled.avgPrice, settled.executedQty, maker, rates, settled.orderId);
+  }
+
+  // Fills of one order; null when its executions could not be read or do not
+  // yet cover `expectedQty`
+  async orderFill(symbol: string, orderId: number, expectedQty: number): Promise<OrderFill | null> {
+    const streamed = this.executions.get(orderId) ?? [];
+    if (covers(streamed, expectedQty)) return this.summarize(streamed, orderId);
+
+    for (let attempt = 1; attempt <= LOOKUP_ATTEMPTS; attempt++) {
+      try {
+        const executions = await this.api.getUserTrades(symbol, orderId);
+        if (covers(executions, expectedQty)) {
+          return await this.summarize(executions, orderId);
+        }
+      } catch (err) {
+        logger.warn(`Could not read fills of ${symbol} order ${orderId}`, String(err));
+      }
+      if (attempt < LOOKUP_ATTEMPTS) await sleep(LOOKUP_RETRY_MS);
+    }
+    return null;
+  }
+
+  private async summarize(executions: UserTrade[], orderId: number): Promise<OrderFill> {
+    const fills: OrderFill[] = [];
+    for (const t of executions) {
+      fills.push({
+        price: t.price,
+        quantity: t.qty,
+        commission: t.commission,
+        commissionAsset: t.commissionAsset,
+        fees: t.commission * await this.usdtPrice(t.commissionAsset),
+        realizedPnl: t.realizedPnl,
+        orderId,
+      });
+    }
+    return { ...combineFills(fills), orderId };
+  }
+
+  private async usdtPrice(asset: string): Promise<number> {
+    if (USD_ASSETS.includes(asset)) return 1;
+    try {
+      const price = await this.api.getTickerPrice(`${asset}USDT`);
+      this.assetPrices.set(asset, price);
+      return price;
+    } catch (err) {
+      const last = this.assetPrices.get(asset);
+      logger.warn(`Could not price ${asset} commission${last ? ", using last price" : ""}`, String(err));
+      return last ?? 0;
+    }
+  }
+}
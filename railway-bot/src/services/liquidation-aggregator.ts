@@ -0,0 +1,106 @@
+import { EventEmitter } from "events";
+
+interface LiquidationPrint {
+  symbol: string;
+  side: "BUY" | "SELL";
+  price: number;
+  quantity: number;
+  usdValue: number;
+  timestamp: number;
+}
+
+export interface LiquidationCascade {
+  symbol: string;
+  side: "BUY" | "SELL";
+  totalUsd: number;
+  count: number;
+  durationMs: number;
+  vwap: number;
+  // Furthest price reached in the push direction (lowest for SELL, highest for BUY)
+  extremePrice: number;
+  startTime: number;
+  endTime: number;
+}
+
+interface OpenCascade {
+  prints: LiquidationPrint[];
+  timer: NodeJS.Timeout;
+}
+
+// Groups individual force orders into cascades per symbol and side.
+// A cascade is emitted once it goes quiet (no new print for quietMs) or
+// once it has been running for the full liquidation window.
+export class LiquidationAggregator extends EventEmitter {
+  private windowMs: number;
+  private quietMs: number;
+  private cascades: Map<string, OpenCascade> = new Map();
+
+  constructor(windowSeconds: number, quietMs = 5000) {
+    super();
+    this.windowMs = windowSeconds * 1000;
+    this.quietMs = quietMs;
+  }
+
+  setWindow(windowSeconds: number) {
+    this.windowMs = windowSeconds * 1000;
+  }
+
+  add(liq: LiquidationPrint) {
+    const key = `${liq.symbol}:${liq.side}`;
+
+    // Window is full: emit what we have and start a fresh cascade with this print
+    const running = this.cascades.get(key);
+    if (running && liq.timestamp - running.prints[0].timestamp >= this.windowMs) {
+      this.close(key);
+    }
+
+    const open = this.cascades.get(key);
+    if (open) {
+      clearTimeout(open.timer);
+      open.prints.push(liq);
+      open.timer = setTimeout(() => this.close(key), this.quietMs);
+    } else {
+      this.cascades.set(key, {
+        prints: [liq],
+        timer: setTimeout(() => this.close(key), this.quietMs),
+      });
+    }
+  }
+
+  private close(key: string) {
+    const open = this.cascades.get(key);
+    if (!open) return;
+
+    clearTimeout(open.timer);
+    this.cascades.delete(key);
+
+    const prints = open.prints;
+    const totalUsd = prints.reduce((sum, p) => sum + p.usdValue, 0);
+    const totalQty = prints.reduce((sum, p) => sum + p.quantity, 0);
+    const first = prints[0];
+    const last = prints[prints.length - 1];
+
+    const cascade: LiquidationCascade = {
+      symbol: first.symbol,
+      side: first.side,
+      totalUsd,
+      count: prints.length,
+      durationMs: last.timestamp - first.timestamp,
+      vwap: totalQty > 0 ? totalUsd / totalQty : first.price,
+      extremePrice: first.side === "SELL"
+        ? Math.min(...prints.map(p => p.price))
+        : Math.max(...prints.map(p => p.price)),
+      startTime: first.timestamp,
+      endTime: last.timestamp,
+    };
+
+    this.emit("cascade", cascade);
+  }
+
+  clear() {
+    for (const open of this.cascades.values()) {
+      clearTimeout(open.timer);
+    }
+    this.cascades.clear();
+  }
+}
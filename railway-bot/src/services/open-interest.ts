@@ -0,0 +1,68 @@
+import type { BinanceAPI } from "./binance-api";
+import { logger } from "./logger";
+
+const POLL_INTERVAL_MS = 10000;
+// Samples kept per symbol (30 minutes at the poll interval)
+const MAX_SAMPLES = 180;
+
+interface OpenInterestSample {
+  openInterest: number;
+  timestamp: number;
+}
+
+// Polls open interest per symbol so a cascade can be checked for an actual
+// flush of positions. Binance has no open interest stream, only REST.
+export class OpenInterestTracker {
+  private api: BinanceAPI;
+  private symbols: string[];
+  private samples: Map<string, OpenInterestSample[]> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(api: BinanceAPI, symbols: string[]) {
+    this.api = api;
+    this.symbols = symbols;
+  }
+
+  start() {
+    this.poll();
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Fractional change from the last sample taken at or before `since` to the
+  // latest one; null when there is no sample that old yet
+  getChangeSince(symbol: string, since: number): number | null {
+    const samples = this.samples.get(symbol) || [];
+    let reference: OpenInterestSample | null = null;
+    for (const sample of samples) {
+      if (sample.timestamp > since) break;
+      reference = sample;
+    }
+    const latest = samples[samples.length - 1];
+    if (!reference || !latest || reference === latest || reference.openInterest === 0) return null;
+
+    return (latest.openInterest - reference.openInterest) / reference.openInterest;
+  }
+
+  private async poll() {
+    for (const symbol of this.symbols) {
+      try {
+        const openInterest = await this.api.getOpenInterest(symbol);
+        const samples = this.samples.get(symbol) || [];
+        samples.push({ openInterest, timestamp: Date.now() });
+        if (samples.length > MAX_SAMPLES) {
+          samples.shift();
+        }
+        this.samples.set(symbol, samples);
+      } catch (err) {
+        logger.warn(`Failed to poll open interest for ${symbol}`, String(err));
+      }
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import type { BinanceAPI } from "./binance-api";
+import type { BinanceWebSocket, DepthUpdate } from "./binance-ws";
+import { logger } from "./logger";
+
+// Resting liquidity within some distance of mid
+export interface BookDepth {
+  bidUsd: number;
+  askUsd: number;
+  // (bid - ask) / (bid + ask): +1 all bids, -1 all asks
+  imbalance: number;
+}
+
+// Diffs buffered while a snapshot is in flight
+const MAX_BUFFERED_UPDATES = 1000;
+const SNAPSHOT_RETRY_MS = 5000;
+
+interface LocalBook {
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  lastUpdateId: number;
+  // IDLE: waiting for the first diff, SYNCING: snapshot in flight,
+  // BRIDGING: snapshot loaded, waiting for the diff that spans it, LIVE: in sync
+  state: "IDLE" | "SYNCING" | "BRIDGING" | "LIVE";
+  buffer: DepthUpdate[];
+}
+
+// Maintains a local L2 book per symbol from a REST snapshot plus the
+// @depth@100ms diff stream, following Binance's futures sync procedure:
+// buffer diffs, fetch a snapshot, drop diffs older than it, start from the
+// diff that spans it, then require each diff's pu to equal the previous u.
+// Any gap (or a reconnect) throws the book away and resyncs.
+export class OrderBookManager {
+  private ws: BinanceWebSocket;
+  private api: BinanceAPI;
+  private books: Map<string, LocalBook> = new Map();
+
+  constructor(ws: BinanceWebSocket, api: BinanceAPI) {
+    this.ws = ws;
+    this.api = api;
+  }
+
+  start() {
+    this.ws.on("depth", (update: DepthUpdate) => this.onUpdate(update));
+
+    // Diffs missed while disconnected cannot be recovered
+    this.ws.on("disconnected", () => {
+      for (const book of this.books.values()) {
+        this.reset(book);
+      }
+    });
+  }
+
+  // Null until the symbol's book is in sync
+  getDepth(symbol: string, withinBps: number): BookDepth | null {
+    const book = this.books.get(symbol);
+    if (!book || book.state !== "LIVE") return null;
+
+    const bestBid = Math.max(...book.bids.keys());
+    const bestAsk = Math.min(...book.asks.keys());
+    if (!isFinite(bestBid) || !isFinite(bestAsk)) return null;
+
+    const mid = (bestBid + bestAsk) / 2;
+    const bidFloor = mid * (1 - withinBps / 10000);
+    const askCeiling = mid * (1 + withinBps / 10000);
+
+    let bidUsd = 0;
+    for (const [price, qty] of book.bids) {
+      if (price >= bidFloor) bidUsd += price * qty;
+    }
+    let askUsd = 0;
+    for (const [price, qty] of book.asks) {
+      if (price <= askCeiling) askUsd += price * qty;
+    }
+
+    const total = bidUsd + askUsd;
+    return {
+      bidUsd,
+      askUsd,
+      imbalance: total > 0 ? (bidUsd - askUsd) / total : 0,
+    };
+  }
+
+  private onUpdate(update: DepthUpdate) {
+    let book = this.books.get(update.symbol);
+    if (!book) {
+      book = { bids: new Map(), asks: new Map(), lastUpdateId: 0, state: "IDLE", buffer: [] };
+      this.books.set(update.symbol, book);
+    }
+
+    if (book.state === "IDLE" || book.state === "SYNCING") {
+      book.buffer.push(update);
+      if (book.buffer.length > MAX_BUFFERED_UPDATES) book.buffer.shift();
+      if (book.state === "IDLE") {
+        this.resync(update.symbol, book);
+      }
+      return;
+    }
+
+    this.apply(update.symbol, book, update);
+  }
+
+  private async resync(symbol: string, book: LocalBook) {
+    book.state = "SYNCING";
+
+    try {
+      const snapshot = await this.api.getDepthSnapshot(symbol);
+      // A disconnect while the snapshot was in flight already reset the book
+      if (book.state !== "SYNCING") return;
+
+      book.bids = new Map(snapshot.bids);
+      book.asks = new Map(snapshot.asks);
+      book.lastUpdateId = snapshot.lastUpdateId;
+      book.state = "BRIDGING";
+
+      const buffered = book.buffer;
+      book.buffer = [];
+      for (const update of buffered) {
+        if (!this.hasSnapshot(book)) {
+          // A gap inside the buffer restarted the sync; keep the rest for it
+          book.buffer.push(update);
+        } else {
+          this.apply(symbol, book, update);
+        }
+      }
+    } catch (err) {
+      logger.warn(`${symbol} depth snapshot failed, retrying in ${SNAPSHOT_RETRY_MS / 1000}s`, String(err));
+      setTimeout(() => {
+        if (book.state === "SYNCING") this.resync(symbol, book);
+      }, SNAPSHOT_RETRY_MS);
+    }
+  }
+
+  private apply(symbol: string, book: LocalBook, update: DepthUpdate) {
+    if (book.state === "BRIDGING") {
+      if (update.finalUpdateId < book.lastUpdateId) return; // Older than the snapshot
+      if (update.firstUpdateId > book.lastUpdateId) {
+        this.restart(symbol, book, update, "snapshot older than the diff stream");
+        return;
+      }
+      book.state = "LIVE";
+      logger.info(`${symbol} order book synced at update ${update.finalUpdateId}`);
+    } else if (update.prevFinalUpdateId !== book.lastUpdateId) {
+      this.restart(symbol, book, update, `sequence gap (pu ${update.prevFinalUpdateId} != ${book.lastUpdateId})`);
+      return;
+    }
+
+    for (const [price, qty] of update.bids) {
+      if (qty === 0) book.bids.delete(price);
+      else book.bids.set(price, qty);
+    }
+    for (const [price, qty] of update.asks) {
+      if (qty === 0) book.asks.delete(price);
+      else book.asks.set(price, qty);
+    }
+    book.lastUpdateId = update.finalUpdateId;
+  }
+
+  // Throw the book away and resync, starting from the update that exposed the gap
+  private restart(symbol: string, book: LocalBook, update: DepthUpdate, reason: string) {
+    logger.warn(`${symbol} order book out of sync: ${reason}, resyncing`);
+    this.reset(book);
+    book.buffer.push(update);
+    this.resync(symbol, book);
+  }
+
+  private hasSnapshot(book: LocalBook): boolean {
+    return book.state === "BRIDGING" || book.state === "LIVE";
+  }
+
+  private reset(book: LocalBook) {
+    book.bids.clear();
+    book.asks.clear();
+    book.lastUpdateId = 0;
+    book.state = "IDLE";
+    book.buffer = [];
+  }
+}
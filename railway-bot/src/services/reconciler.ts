@@ -0,0 +1,125 @@
+import type { Position } from "./binance-api";
+
+// The bot's in-memory view of one open position
+export interface ManagedPosition {
+  tradeId: number;
+  symbol: string;
+  side: "LONG" | "SHORT";
+  quantity: number;
+}
+
+export type MismatchKind =
+  // The DB has an open trade the bot is not managing
+  | "DB_ONLY"
+  // The bot manages a trade the DB no longer has open
+  | "NOT_IN_DB"
+  // The bot manages a position the exchange does not hold
+  | "NOT_ON_EXCHANGE"
+  // The exchange holds a different size than the bot
+  | "SIZE"
+  // The exchange holds the symbol on the other side
+  | "SIDE"
+  // The exchange holds a position with no trade behind it on a traded symbol
+  | "EXCHANGE_ONLY";
+
+export interface Mismatch {
+  kind: MismatchKind;
+  symbol: string;
+  tradeId: number | null;
+  exchange: Position | null;
+  detail: string;
+}
+
+// Sizes this close (relative) are the same position after exchange rounding
+const SIZE_TOLERANCE = 1e-6;
+
+// Compares DB open trades, the bot's positions and, in live mode, the
+// exchange's positions. `exchange` is null in paper mode, where only the DB
+// and the bot are compared. Untracked exchange positions only count on
+// `tradedSymbols`; anything else on the account is not the bot's business.
+export function findMismatches(
+  managed: ManagedPosition[],
+  dbOpen: { id: number; symbol: string }[],
+  exchange: Position[] | null,
+  tradedSymbols: Set<string>,
+): Mismatch[] {
+  const mismatches: Mismatch[] = [];
+  const managedIds = new Set(managed.map(p => p.tradeId));
+  const dbIds = new Set(dbOpen.map(t => t.id));
+
+  for (const trade of dbOpen) {
+    if (managedIds.has(trade.id)) continue;
+    mismatches.push({
+      kind: "DB_ONLY",
+      symbol: trade.symbol,
+      tradeId: trade.id,
+      exchange: exchange?.find(p => p.symbol === trade.symbol) ?? null,
+      detail: `Trade #${trade.id} on ${trade.symbol} is open in the DB but not managed by the bot`,
+    });
+  }
+
+  for (const position of managed) {
+    if (!dbIds.has(position.tradeId)) {
+      mismatches.push({
+        kind: "NOT_IN_DB",
+        symbol: position.symbol,
+        tradeId: position.tradeId,
+        exchange: null,
+        detail: `Trade #${position.tradeId} on ${position.symbol} is managed by the bot but closed in the DB`,
+      });
+    }
+    if (!exchange) continue;
+
+    const held = exchange.find(p => p.symbol === position.symbol);
+    const heldSide = held && held.positionAmt > 0 ? "LONG" : "SHORT";
+    const heldQty = held ? Math.abs(held.positionAmt) : 0;
+    if (!held) {
+      mismatches.push({
+        kind: "NOT_ON_EXCHANGE",
+        symbol: position.symbol,
+        tradeId: position.tradeId,
+        exchange: null,
+        detail: `Trade #${position.tradeId} ${position.side} ${position.symbol} is not held on the exchange`,
+      });
+    } else if (heldSide !== position.side) {
+      mismatches.push({
+        kind: "SIDE",
+        symbol: position.symbol,
+        tradeId: position.tradeId,
+        exchange: held,
+        detail: `${position.symbol} is ${heldSide} on the exchange but trade #${position.tradeId} is ${position.side}`,
+      });
+    } else if (Math.abs(heldQty - position.quantity) > position.quantity * SIZE_TOLERANCE) {
+      mismatches.push({
+        kind: "SIZE",
+        symbol: position.symbol,
+        tradeId: position.tradeId,
+        exchange: held,
+        detail: `${position.symbol} exchange size ${heldQty} differs from trade #${position.tradeId} (${position.quantity.toFixed(4)})`,
+      });
+    }
+  }
+
+  // A DB-only trade on the symbol already accounts for its exchange position
+  const accounted = new Set([
+    ...managed.map(p => p.symbol),
+    ...mismatches.filter(m => m.kind === "DB_ONLY").map(m => m.symbol),
+  ]);
+  for (const held of exchange ?? []) {
+    if (accounted.has(held.symbol) || !tradedSymbols.has(held.symbol)) continue;
+    mismatches.push({
+      kind: "EXCHANGE_ONLY",
+      symbol: held.symbol,
+      tradeId: null,
+      exchange: held,
+      detail: `${held.symbol} position of ${held.positionAmt} on the exchange has no open trade`,
+    });
+  }
+
+  return mismatches;
+}
+
+// Identifies the same mismatch across passes
+export function mismatchKey(mismatch: Mismatch): string {
+  return `${mismatch.kind}:${mismatch.symbol}:${mismatch.tradeId ?? ""}`;
+}
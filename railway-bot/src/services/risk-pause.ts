@@ -0,0 +1,63 @@
+import type { Config } from "../strategies/types";
+import { nextTradingDayStart } from "./trading-day";
+
+export type RiskPauseReason = "CONSECUTIVE_LOSSES" | "DAILY_LOSS";
+
+export interface RiskPause {
+  reason: RiskPauseReason;
+  since: number;
+  resumeAt: number;
+}
+
+type PauseConfig = Pick<Config, "pauseAfterLossesMinutes" | "tradingDayTimezone">;
+
+// Decides how long a risk-limit pause lasts. A consecutive-loss pause expires
+// pauseAfterLossesMinutes after it tripped; a daily-loss pause holds until the
+// next trading day. An operator can lift either early; a lifted daily-loss
+// limit stays lifted for the rest of the day so the next signal does not trip
+// it again straight away.
+export class RiskPausePolicy {
+  private pause: RiskPause | null = null;
+  private dailyLossOverrideUntil = 0;
+
+  get current(): RiskPause | null {
+    return this.pause;
+  }
+
+  dailyLossOverridden(now: number): boolean {
+    return now < this.dailyLossOverrideUntil;
+  }
+
+  trip(reason: RiskPauseReason, config: PauseConfig, now: number): RiskPause {
+    const resumeAt = reason === "DAILY_LOSS"
+      ? nextTradingDayStart(now, config.tradingDayTimezone)
+      : now + config.pauseAfterLossesMinutes * 60 * 1000;
+    this.pause = { reason, since: now, resumeAt };
+    return this.pause;
+  }
+
+  // Reinstates a pause recorded before a restart; expire() lifts it as usual
+  // if its resume time passed while the bot was down
+  restore(reason: RiskPauseReason, resumeAt: number, now: number): RiskPause {
+    this.pause = { reason, since: now, resumeAt };
+    return this.pause;
+  }
+
+  // Clears and returns the pause once its time is up
+  expire(now: number): RiskPause | null {
+    if (!this.pause || now < this.pause.resumeAt) return null;
+    const expired = this.pause;
+    this.pause = null;
+    return expired;
+  }
+
+  // Clears and returns the pause regardless of its resume time
+  override(config: PauseConfig, now: number): RiskPause | null {
+    const lifted = this.pause;
+    if (lifted?.reason === "DAILY_LOSS") {
+      this.dailyLossOverrideUntil = nextTradingDayStart(now, config.tradingDayTimezone);
+    }
+    this.pause = null;
+    return lifted;
+  }
+}
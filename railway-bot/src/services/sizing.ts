@@ -0,0 +1,91 @@
+import type { BinanceAPI, LeverageBracket } from "./binance-api";
+import { logger } from "./logger";
+
+// Why an entry got less than its risk-based size
+export type SizeLimit =
+  // Margin over maxMarginPerTradePct of equity
+  | "MARGIN_CAP"
+  // Margin over the available balance
+  | "BALANCE"
+  // Notional over what the leverage bracket allows at the configured leverage
+  | "BRACKET";
+
+export interface SizeLimits {
+  equity: number;
+  availableBalance: number;
+  leverage: number;
+  maxMarginPerTradePct: number;
+  // Largest notional the symbol's brackets allow at `leverage`
+  bracketCap: number;
+}
+
+export interface SizePlan {
+  notional: number;
+  // Share of the risk-based notional that was cut (0 when not reduced)
+  reductionPct: number;
+  limit: SizeLimit | null;
+  detail: string | null;
+}
+
+// Part of the available balance kept free for fees and mark price moves
+const BALANCE_BUFFER = 0.05;
+
+// Cuts a risk-based notional down to the tightest of the margin cap, the
+// available balance and the leverage bracket
+export function limitNotional(riskNotional: number, limits: SizeLimits): SizePlan {
+  const caps: { limit: SizeLimit; notional: number; detail: string }[] = [
+    {
+      limit: "MARGIN_CAP",
+      notional: limits.equity * limits.maxMarginPerTradePct * limits.leverage,
+      detail: `margin capped at ${(limits.maxMarginPerTradePct * 100).toFixed(0)}% of $${limits.equity.toFixed(2)} equity`,
+    },
+    {
+      limit: "BALANCE",
+      notional: Math.max(0, limits.availableBalance * (1 - BALANCE_BUFFER)) * limits.leverage,
+      detail: `$${limits.availableBalance.toFixed(2)} available balance at ${limits.leverage}x`,
+    },
+    {
+      limit: "BRACKET",
+      notional: limits.bracketCap,
+      detail: `leverage bracket allows $${limits.bracketCap.toFixed(0)} at ${limits.leverage}x`,
+    },
+  ];
+
+  const tightest = caps.reduce((min, cap) => (cap.notional < min.notional ? cap : min));
+  if (tightest.notional >= riskNotional) {
+    return { notional: riskNotional, reductionPct: 0, limit: null, detail: null };
+  }
+  return {
+    notional: tightest.notional,
+    reductionPct: riskNotional > 0 ? 1 - tightest.notional / riskNotional : 0,
+    limit: tightest.limit,
+    detail: tightest.detail,
+  };
+}
+
+// Caches the account's leverage brackets. They are only needed (and only
+// fetched) for live entries; until they load no bracket cap applies.
+export class LeverageBrackets {
+  private api: BinanceAPI;
+  private brackets: Map<string, LeverageBracket[]> | null = null;
+
+  constructor(api: BinanceAPI) {
+    this.api = api;
+  }
+
+  // Largest notional a position on `symbol` can have at `leverage`
+  async notionalCap(symbol: string, leverage: number): Promise<number> {
+    if (!this.brackets) {
+      try {
+        this.brackets = await this.api.getLeverageBrackets();
+      } catch (err) {
+        logger.warn("Failed to load leverage brackets", String(err));
+        return Infinity;
+      }
+    }
+
+    const allowed = (this.brackets.get(symbol) ?? []).filter(b => b.initialLeverage >= leverage);
+    if (allowed.length === 0) return this.brackets.has(symbol) ? 0 : Infinity;
+    return Math.max(...allowed.map(b => b.notionalCap));
+  }
+}
@@ -0,0 +1,56 @@
+import { db } from "../db";
+import { trades, tradeFills, metrics, botStates } from "../db/schema";
+import { eq, desc, inArray, isNotNull } from "drizzle-orm";
+
+export type TradeRow = typeof trades.$inferSelect;
+export type FillRow = typeof tradeFills.$inferSelect;
+
+export interface OpenTradeRecord {
+  trade: TradeRow;
+  fills: FillRow[];
+}
+
+// Everything the runner needs to pick up where it left off after a restart
+export interface PersistedState {
+  openTrades: OpenTradeRecord[];
+  // The current trading day's metrics row, if the bot already traded today
+  today: typeof metrics.$inferSelect | null;
+  // Most recent metrics row of any day; carries the last known equity
+  latestMetrics: typeof metrics.$inferSelect | null;
+  // Latest entry per symbol, for cooldowns
+  lastEntries: TradeRow[];
+  botState: typeof botStates.$inferSelect | null;
+}
+
+// Trades the DB has open, newest first, with their fills
+export async function loadOpenTrades(): Promise<OpenTradeRecord[]> {
+  const openRows = await db.select().from(trades).where(eq(trades.isOpen, true)).orderBy(desc(trades.id));
+  const fills = openRows.length > 0
+    ? await db.select().from(tradeFills).where(inArray(tradeFills.tradeId, openRows.map(t => t.id)))
+    : [];
+  return openRows.map(trade => ({ trade, fills: fills.filter(f => f.tradeId === trade.id) }));
+}
+
+export async function loadPersistedState(tradingDay: string): Promise<PersistedState> {
+  const openTrades = await loadOpenTrades();
+
+  const [today] = await db.select().from(metrics).where(eq(metrics.tradingDay, tradingDay)).limit(1);
+  const [latestMetrics] = await db.select().from(metrics)
+    .where(isNotNull(metrics.tradingDay))
+    .orderBy(desc(metrics.tradingDay))
+    .limit(1);
+
+  const lastEntries = await db.selectDistinctOn([trades.symbol]).from(trades)
+    .where(isNotNull(trades.entryTimestamp))
+    .orderBy(trades.symbol, desc(trades.entryTimestamp));
+
+  const [botState] = await db.select().from(botStates).orderBy(desc(botStates.id)).limit(1);
+
+  return {
+    openTrades,
+    today: today ?? null,
+    latestMetrics: latestMetrics ?? null,
+    lastEntries,
+    botState: botState ?? null,
+  };
+}
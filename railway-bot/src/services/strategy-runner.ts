@@ -0,0 +1,1793 @@
+import { BinanceWebSocket, type LiquidationData } from "./binance-ws";
+import { BinanceAPI, type OrderResult, type Position } from "./binance-api";
+import { CandleBuilder, type CandleInterval } from "./candle-builder";
+import { OrderBookManager } from "./order-book";
+import { OpenInterestTracker } from "./open-interest";
+import { RiskPausePolicy, type RiskPauseReason } from "./risk-pause";
+import { tradingDayOf } from "./trading-day";
+import { EntryExecutor } from "./execution";
+import { bookedFill, FillLedger, modelFill, type FeeRates, type OrderFill } from "./fills";
+import { LeverageBrackets, limitNotional, type SizePlan } from "./sizing";
+import { BinanceUserStream, type AccountUpdate, type MarginCall, type OrderUpdate } from "./user-stream";
+import { loadOpenTrades, loadPersistedState, type OpenTradeRecord } from "./state-restore";
+import { findMismatches, mismatchKey, type Mismatch } from "./reconciler";
+import { logger } from "./logger";
+import { db } from "../db";
+import { trades, tradeFills, marketEvents, metrics, botStates, healthChecks } from "../db/schema";
+import { eq, desc } from "drizzle-orm";
+import type { Config, MarketData, ReconcilePolicy, SignalEvaluation, Strategy, TradeIntent, TradeVariant } from "../strategies/types";
+
+// BTC and ETH move together closely enough that same-direction positions in
+// both are treated as one bet for the correlation cap
+const CORRELATED_SYMBOLS = ["BTCUSDT", "ETHUSDT"];
+
+// ATR used for ATR-based trailing
+const ATR_INTERVAL: CandleInterval = "15s";
+const ATR_PERIOD = 14;
+
+// Bars behind volatility-based stops (about 15 minutes of 1m history)
+const VOL_INTERVAL: CandleInterval = "1m";
+const VOL_PERIOD = 14;
+
+// The exchange stop is only replaced once the monitor's stop has moved this
+// far (as a fraction of price), to keep order traffic down while trailing
+const STOP_AMEND_PCT = 0.0005;
+// Wait after a failed protective order placement before trying again
+const PROTECTION_RETRY_MS = 5000;
+// Wait after a failed TP1 partial close before trying again
+const TP1_RETRY_MS = 5000;
+
+// TP/SL distances chosen for an entry; FIXED when volatility stops are off
+// or there is not yet enough history to measure volatility
+interface StopPlan {
+  tpPct: number;
+  slPct: number;
+  mode: "FIXED" | "ATR" | "REALIZED";
+  // Volatility measure the stop was derived from, as a fraction of price
+  volPct: number | null;
+}
+
+// Break-even, trailing and scale-out settings captured from the strategy config at entry
+type ExitManagement = Pick<Config,
+  "breakevenEnabled" | "breakevenTriggerPct" | "trailMode" | "trailTriggerPct" | "trailPct" | "trailAtrMult" |
+  "scaleOutEnabled" | "tp1Pct" | "tp1ClosePct">;
+
+// Entry size after margin limits, on the symbol's lot step
+interface EntrySize extends SizePlan {
+  quantity: number;
+}
+
+// Live only: reduce-only orders resting on the exchange as a backstop for the
+// position monitor
+interface Protection {
+  stopOrderId: number | null;
+  tpOrderId: number | null;
+  // Stop price and size the resting orders were placed with
+  stopPrice: number | null;
+  quantity: number;
+  // Placements and cancels for the position run one at a time
+  queue: Promise<void>;
+  pending: boolean;
+  retryAt: number;
+  // Cancelled on exit; nothing is placed after that
+  released: boolean;
+}
+
+function newProtection(stopOrderId: number | null = null, tpOrderId: number | null = null): Protection {
+  return {
+    stopOrderId,
+    tpOrderId,
+    stopPrice: null,
+    quantity: 0,
+    queue: Promise.resolve(),
+    pending: false,
+    retryAt: 0,
+    released: false,
+  };
+}
+
+interface OpenTrade {
+  strategyId: string;
+  symbol: string;
+  entryPrice: number;
+  initialQuantity: number;
+  // Still open; drops after the TP1 partial
+  quantity: number;
+  side: "LONG" | "SHORT";
+  variant: TradeVariant;
+  tpPct: number;
+  slPct: number;
+  timeStopSeconds: number;
+  entryTime: number;
+  tradeId: number;
+  exits: ExitManagement;
+  // Starts at the fixed stop loss and only ever moves in the trade's favour
+  stopPrice: number;
+  stopReason: "SL" | "BREAKEVEN" | "TRAIL";
+  // Best price since entry: highest for LONG, lowest for SHORT
+  bestPrice: number;
+  tp1Done: boolean;
+  // Running totals: PnL over the exit fills so far, commission over every
+  // fill including the entry
+  realizedPnl: number;
+  fees: number;
+  exitedQuantity: number;
+  exitNotional: number;
+  // An exit order is in flight; the monitor leaves the position alone until it settles
+  closing: boolean;
+  protection: Protection;
+}
+
+interface ExitFill {
+  price: number;
+  quantity: number;
+  pnlUsdt: number;
+  fees: number;
+}
+
+// Hosts one or more strategies on a shared market data feed. Strategies only
+// report evaluations and trade intents; the runner applies the account-wide
+// risk limits, sizes and executes orders, manages open positions and
+// writes everything to the database.
+//
+// Account-wide settings (symbols, leverage, daily limits) come from the first
+// registered strategy's config. Sizing, cooldowns and exits follow the config
+// of the strategy that produced the intent. Each symbol has one position
+// slot; portfolio caps limit how many slots can be in use at once.
+export class StrategyRunner {
+  private ws: BinanceWebSocket;
+  private api: BinanceAPI;
+  private config: Config;
+  private strategies: Strategy[] = [];
+  // Manual pause; risk-limit pauses are tracked by riskPause and lift on their own
+  private isPaused = false;
+  private riskPause = new RiskPausePolicy();
+  private isLive = false;
+  // New signals wait for the first reconciliation pass; symbols with an
+  // open mismatch stay blocked until it clears
+  private positionsVerified = false;
+  private mismatchedSymbols: Set<string> = new Set();
+  // Live entries whose outcome is unknown (an order failed or its fill could
+  // not be confirmed); the next pass adopts whatever the exchange holds there
+  private unsettledEntries: Set<string> = new Set();
+  // Mismatch keys seen on the last pass, and those already reported as errors
+  private pendingMismatches: Set<string> = new Set();
+  private reportedMismatches: Set<string> = new Set();
+  // Exchange positions on symbols no strategy trades, already logged
+  private foreignPositions: Set<string> = new Set();
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  // Evaluations are handled one at a time so portfolio caps see every entry
+  private evaluationQueue: Promise<void> = Promise.resolve();
+
+  // State tracking
+  private candles = new CandleBuilder();
+  private books: OrderBookManager;
+  private entries: EntryExecutor;
+  private fills: FillLedger;
+  private brackets: LeverageBrackets;
+  private userStream: BinanceUserStream;
+  // Liquidation orders the exchange filled, by symbol, until the trade is booked
+  private liquidations: Map<string, { orderId: number; quantity: number }> = new Map();
+  private openInterest: OpenInterestTracker;
+  private market: MarketData;
+  private symbolCooldowns: Map<string, number> = new Map();
+  private openTrades: Map<string, OpenTrade> = new Map();
+  // When a failed TP1 partial may be tried again, by symbol
+  private tp1RetryAt: Map<string, number> = new Map();
+
+  // Daily metrics, reset when the trading day rolls over
+  private tradingDay: string;
+  private todayPnl = 0;
+  private todayTradeCount = 0;
+  private todayWinCount = 0;
+  private todayLossCount = 0;
+  private consecutiveLosses = 0;
+  private equity = 1400; // Starting equity in USDT
+  // Live only: USDT wallet balance as the exchange reports it
+  private walletBalance: number | null = null;
+
+  constructor(ws: BinanceWebSocket, api: BinanceAPI, config: Config, isLive = false) {
+    this.ws = ws;
+    this.api = api;
+    this.config = config;
+    this.isLive = isLive;
+    this.tradingDay = tradingDayOf(Date.now(), config.tradingDayTimezone);
+    this.books = new OrderBookManager(ws, api);
+    this.fills = new FillLedger(api);
+    this.entries = new EntryExecutor(api, ws, this.fills);
+    this.brackets = new LeverageBrackets(api);
+    this.userStream = new BinanceUserStream(api);
+    this.openInterest = new OpenInterestTracker(api, config.symbols);
+    this.market = {
+      getPrice: (symbol) => ws.getPrice(symbol),
+      getSpreadBps: (symbol) => ws.getSpreadBps(symbol),
+      getPriceDelta: (symbol, seconds) => ws.getPriceDelta(symbol, seconds),
+      getBookDepth: (symbol, withinBps) => this.books.getDepth(symbol, withinBps),
+      getFunding: (symbol) => ws.getFunding(symbol),
+      getOpenInterestChange: (symbol, since) => this.openInterest.getChangeSince(symbol, since),
+      candles: this.candles,
+    };
+  }
+
+  register(strategy: Strategy) {
+    if (this.strategies.some(s => s.id === strategy.id)) {
+      throw new Error(`Strategy ${strategy.id} is already registered`);
+    }
+    this.strategies.push(strategy);
+  }
+
+  get strategyIds(): string[] {
+    return this.strategies.map(s => s.id);
+  }
+
+  async start() {
+    logger.info(`Starting strategies: ${this.strategyIds.join(", ")}`);
+    logger.info(`Mode: ${this.isLive ? "LIVE TRADING" : "PAPER TRADING (no real orders)"}`);
+
+    // Pick up open trades, today's counters and any pause from the last run
+    // before the bot state is overwritten
+    await this.restoreState();
+
+    // Symbol price/quantity filters; orders fall back to fixed decimals if
+    // they cannot be loaded
+    await this.api.exchangeInfo.start();
+
+    this.userStream.on("connected", () => this.refreshWalletBalance());
+    this.userStream.on("order", (update: OrderUpdate) => {
+      this.onOrderUpdate(update).catch(err => logger.error(`Failed to handle ${update.symbol} order update`, String(err)));
+    });
+    this.userStream.on("account", (update: AccountUpdate) => {
+      this.onAccountUpdate(update).catch(err => logger.error("Failed to handle account update", String(err)));
+    });
+    this.userStream.on("marginCall", (call: MarginCall) => {
+      this.onMarginCall(call).catch(err => logger.error("Failed to handle margin call", String(err)));
+    });
+
+    // Update bot state
+    await this.updateBotState(this.status);
+    await this.updateHealth(true, true, true);
+
+    // In paper mode, skip API calls that require trading permissions
+    if (this.isLive) {
+      // Set leverage on all symbols
+      for (const symbol of this.config.symbols) {
+        try {
+          await this.api.setLeverage(symbol, this.config.leverage);
+        } catch (err) {
+          logger.warn(`Failed to set leverage for ${symbol}`, String(err));
+        }
+      }
+
+      // Get initial equity from account; the balance already includes today's
+      // realized PnL, which the runner tracks separately
+      try {
+        this.walletBalance = await this.api.getUsdtWalletBalance();
+        this.equity = this.walletBalance - this.todayPnl;
+        logger.info(`Starting equity: $${this.equity.toFixed(2)}`);
+      } catch (err) {
+        logger.warn("Could not fetch initial balance, using default");
+      }
+
+      // Fills, balance changes and margin calls pushed by the exchange
+      await this.userStream.start();
+    } else {
+      // Paper mode - equity carried over from the metrics history
+      logger.info(`[PAPER] Using simulated equity: $${this.equity.toFixed(2)}`);
+    }
+
+    await this.reconcile();
+
+    // Open today's metrics row when starting on a new trading day
+    const [todayMetrics] = await db.select().from(metrics).where(eq(metrics.tradingDay, this.tradingDay)).limit(1);
+    if (!todayMetrics) {
+      await this.updateMetrics();
+    }
+
+    for (const strategy of this.strategies) {
+      strategy.start(this.market, (evaluations) => {
+        this.evaluationQueue = this.evaluationQueue
+          .then(() => this.onEvaluations(strategy, evaluations))
+          .catch(err => {
+            logger.error(`Failed to handle ${strategy.id} signal`, String(err));
+          });
+      });
+    }
+
+    this.ws.on("liquidation", (liq: LiquidationData) => {
+      for (const strategy of this.strategies) {
+        strategy.onLiquidation(liq);
+      }
+    });
+
+    // Local L2 books for the depth and imbalance criteria
+    this.books.start();
+    this.openInterest.start();
+
+    // Resting stop/TP orders may have changed while the feed was down
+    this.ws.on("connected", () => {
+      for (const position of Array.from(this.openTrades.values())) {
+        this.verifyProtection(position).catch(err => {
+          logger.warn(`Could not verify ${position.symbol} protective orders`, String(err));
+        });
+      }
+    });
+
+    // Listen for trade updates for candles and volume tracking
+    this.ws.on("trade", (trade: any) => {
+      this.candles.addTrade(trade);
+    });
+
+    // Start position monitoring loop
+    this.startPositionMonitor();
+
+    // Start heartbeat
+    this.startHeartbeat();
+    this.scheduleReconcile();
+
+    logger.info("Strategies started successfully");
+  }
+
+  private async onEvaluations(strategy: Strategy, evaluations: SignalEvaluation[]) {
+    if (this.isPaused || this.riskPause.current || !this.positionsVerified) return;
+    if (evaluations.length === 0) return;
+
+    const symbol = evaluations[0].cascade.symbol;
+    if (this.openTrades.has(symbol)) return; // Symbol slot already in use
+    if (this.mismatchedSymbols.has(symbol)) return; // Out of sync with the DB or exchange
+
+    // Check cooldown first (don't log cooldown events)
+    const cooldownUntil = this.symbolCooldowns.get(symbol) || 0;
+    if (Date.now() < cooldownUntil) {
+      return; // Skip cooldown events entirely
+    }
+
+    // ============================================
+    // CHECK DAILY LIMITS (separate from signal quality)
+    // ============================================
+    const dailyLimitOk = this.todayTradeCount < this.config.maxTradesPerDay;
+    const consecutiveLossOk = this.consecutiveLosses < this.config.maxConsecutiveLosses;
+    const dailyLossOk = this.dailyLossPct < this.config.dailyMaxLossPct || this.riskPause.dailyLossOverridden(Date.now());
+    const riskLimitsPassed = dailyLimitOk && consecutiveLossOk && dailyLossOk;
+
+    const riskFailures: string[] = [];
+    if (!dailyLimitOk) riskFailures.push("Daily trade limit");
+    if (!consecutiveLossOk) riskFailures.push("Consecutive losses limit");
+    if (!dailyLossOk) riskFailures.push("Daily loss limit");
+
+    // ============================================
+    // LOG EACH EVALUATION WITH ALL CRITERIA
+    // ============================================
+    let entry: { intent: TradeIntent; stops: StopPlan } | null = null;
+    for (const evaluation of evaluations) {
+      const failures = [...evaluation.failures, ...riskFailures];
+      const stops = evaluation.intent ? this.stopPlan(strategy, evaluation.intent) : null;
+      if (evaluation.intent && stops) {
+        const price = this.ws.getPrice(evaluation.intent.symbol);
+        if (price) {
+          // Portfolio caps see the size after margin limits
+          const size = await this.entrySize(strategy, evaluation.intent, stops.slPct, price, this.estimatedAvailableBalance());
+          failures.push(...this.portfolioFailures(evaluation.intent, size.notional));
+          const rejection = this.api.exchangeInfo.rejection(evaluation.intent.symbol, size.quantity, price);
+          if (rejection) failures.push(rejection);
+        } else {
+          failures.push("No price");
+        }
+      }
+
+      const passed = evaluation.intent !== null && failures.length === 0;
+      if (passed && !entry && evaluation.intent && stops) entry = { intent: evaluation.intent, stops };
+
+      await this.logMarketEvent(
+        strategy.id,
+        evaluation,
+        passed,
+        failures.length > 0 ? failures.join("; ") : null,
+      );
+    }
+
+    // Handle risk limit pausing
+    if (!riskLimitsPassed) {
+      await this.enforceRiskLimits();
+      return;
+    }
+
+    if (entry) {
+      const { intent } = entry;
+      logger.info(`SIGNAL PASSED: ${strategy.id}/${intent.variant} ${intent.symbol} - ${intent.summary}`);
+      await this.enterTrade(strategy, intent, entry.stops);
+    }
+  }
+
+  // Live: the exchange's wallet balance once known; paper: start-of-day
+  // equity plus today's net PnL
+  private get currentEquity(): number {
+    return this.isLive && this.walletBalance !== null ? this.walletBalance : this.equity + this.todayPnl;
+  }
+
+  private get dailyLossPct(): number {
+    return Math.abs(Math.min(0, this.todayPnl)) / this.equity;
+  }
+
+  private get status(): string {
+    if (this.riskPause.current) return "PAUSED_RISK_LIMIT";
+    return this.isPaused ? "PAUSED_MANUAL" : "RUNNING";
+  }
+
+  // Pauses trading when the daily loss or consecutive loss limit is hit. The
+  // daily loss pause wins when both trip since it lasts longer.
+  private async enforceRiskLimits() {
+    if (this.riskPause.current) return;
+
+    const now = Date.now();
+    let reason: RiskPauseReason | null = null;
+    if (this.dailyLossPct >= this.config.dailyMaxLossPct && !this.riskPause.dailyLossOverridden(now)) {
+      reason = "DAILY_LOSS";
+    } else if (this.consecutiveLosses >= this.config.maxConsecutiveLosses) {
+      reason = "CONSECUTIVE_LOSSES";
+    }
+    if (!reason) return;
+
+    const pause = this.riskPause.trip(reason, this.config, now);
+    logger.warn(`Risk limit hit (${reason}), trading paused until ${new Date(pause.resumeAt).toISOString()}`);
+    await this.updateBotState(this.status);
+  }
+
+  // At the trading-day boundary the finished day's metrics row is closed and
+  // the daily counters start again on a fresh row. Only moves forward, so a
+  // timezone change that puts "today" earlier waits for the new day.
+  private async rollTradingDay() {
+    const today = tradingDayOf(Date.now(), this.config.tradingDayTimezone);
+    if (today <= this.tradingDay) return;
+
+    await this.updateMetrics(new Date());
+    logger.info(`Trading day ${this.tradingDay} closed: PnL $${this.todayPnl.toFixed(2)} over ${this.todayTradeCount} trades`);
+
+    this.equity = this.currentEquity;
+    this.todayPnl = 0;
+    this.todayTradeCount = 0;
+    this.todayWinCount = 0;
+    this.todayLossCount = 0;
+    this.consecutiveLosses = 0;
+    this.tradingDay = today;
+    await this.updateMetrics();
+  }
+
+  // Lifts an expired risk pause and resets the counter that tripped it
+  private async resumeIfPauseExpired() {
+    const expired = this.riskPause.expire(Date.now());
+    if (!expired) return;
+
+    // The day rollover already reset the daily loss
+    if (expired.reason === "CONSECUTIVE_LOSSES") {
+      this.consecutiveLosses = 0;
+      await this.updateMetrics();
+    }
+    logger.info(`Risk pause (${expired.reason}) expired, trading resumes`);
+    await this.updateBotState(this.status);
+  }
+
+  // Rebuilds open positions, today's counters, cooldowns and the pause state
+  // from the database so a restart carries on where the last run stopped.
+  // An operator override of the daily loss limit is not kept.
+  private async restoreState() {
+    const state = await loadPersistedState(this.tradingDay);
+    const now = Date.now();
+
+    for (const record of state.openTrades) {
+      const existing = this.openTrades.get(record.trade.symbol);
+      if (existing) {
+        logger.error(`Trade #${record.trade.id} is open on ${record.trade.symbol} alongside #${existing.tradeId}, only #${existing.tradeId} is restored`);
+        continue;
+      }
+      const position = this.restorePosition(record);
+      this.openTrades.set(position.symbol, position);
+      logger.info(`Restored open trade #${position.tradeId}: ${position.strategyId}/${position.variant} ${position.side} ${position.symbol} ${position.quantity.toFixed(4)} @ ${position.entryPrice.toFixed(2)}${position.tp1Done ? " (after TP1)" : ""}`);
+    }
+
+    if (state.today) {
+      this.todayPnl = state.today.todayPnlUsdt;
+      this.todayTradeCount = state.today.todayTradeCount;
+      this.todayWinCount = state.today.todayWinCount;
+      this.todayLossCount = state.today.todayLossCount;
+      this.consecutiveLosses = state.today.consecutiveLosses;
+    }
+
+    // Rows store end-of-day equity; today's PnL is tracked on top of the start-of-day figure
+    if (state.today) {
+      this.equity = state.today.equityUsdt - state.today.todayPnlUsdt;
+    } else if (state.latestMetrics) {
+      this.equity = state.latestMetrics.equityUsdt;
+    }
+
+    for (const trade of state.lastEntries) {
+      if (!trade.entryTimestamp) continue;
+      const until = this.cooldownEnd(this.strategyFor(trade.strategyId), trade.symbol, trade.entryTimestamp.getTime());
+      if (until > now) this.symbolCooldowns.set(trade.symbol, until);
+    }
+
+    const saved = state.botState;
+    if (saved?.status === "PAUSED_MANUAL") {
+      this.isPaused = true;
+    } else if (saved?.status === "PAUSED_RISK_LIMIT" && saved.resumeAt &&
+      (saved.pauseReason === "CONSECUTIVE_LOSSES" || saved.pauseReason === "DAILY_LOSS")) {
+      this.riskPause.restore(saved.pauseReason, saved.resumeAt.getTime(), now);
+    }
+
+    logger.info(`Restored state: ${this.openTrades.size} open trades, ${this.todayTradeCount} trades today, PnL $${this.todayPnl.toFixed(2)}, ${this.consecutiveLosses} consecutive losses, ${this.status}`);
+
+    // Catches a pause that was tripped without a recorded reason
+    await this.enforceRiskLimits();
+  }
+
+  // Open trade rebuilt from its row and fills. Exit management follows the
+  // strategy's current config. The best price since entry is not stored, so the
+  // stop starts again at the fixed stop loss and break-even/trailing re-engage
+  // from the entry price.
+  private restorePosition({ trade, fills }: OpenTradeRecord): OpenTrade {
+    const strategy = this.strategyFor(trade.strategyId);
+    const config = strategy.config;
+    const side = trade.side === "SHORT" ? "SHORT" : "LONG";
+    const variant: TradeVariant = trade.variant === "MOMENTUM" ? "MOMENTUM" : "REVERSION";
+    const symbolSettings = config.symbolSettings[trade.symbol];
+
+    const tpPct = trade.tpPct ?? (variant === "MOMENTUM" ? config.momentumTpPct : symbolSettings?.tpPct ?? config.tpPct);
+    const slPct = trade.slPct ?? (variant === "MOMENTUM" ? config.momentumSlPct : symbolSettings?.slPct ?? config.slPct);
+    const timeStopSeconds = trade.timeStopSeconds ?? (variant === "MOMENTUM" ? config.momentumTimeStopSeconds : config.timeStopSeconds);
+
+    const exitFills = fills.filter(f => f.reason !== "ENTRY");
+    const exitedQuantity = exitFills.reduce((sum, f) => sum + f.quantity, 0);
+
+    return {
+      strategyId: strategy.id,
+      symbol: trade.symbol,
+      entryPrice: trade.entryPrice,
+      initialQuantity: trade.quantity,
+      quantity: Math.max(0, trade.quantity - exitedQuantity),
+      side,
+      variant,
+      tpPct,
+      slPct,
+      timeStopSeconds,
+      entryTime: trade.entryTimestamp?.getTime() ?? Date.now(),
+      tradeId: trade.id,
+      exits: {
+        breakevenEnabled: config.breakevenEnabled,
+        breakevenTriggerPct: config.breakevenTriggerPct,
+        trailMode: config.trailMode,
+        trailTriggerPct: config.trailTriggerPct,
+        trailPct: config.trailPct,
+        trailAtrMult: config.trailAtrMult,
+        scaleOutEnabled: config.scaleOutEnabled,
+        tp1Pct: config.tp1Pct,
+        tp1ClosePct: config.tp1ClosePct,
+      },
+      stopPrice: side === "LONG" ? trade.entryPrice * (1 - slPct) : trade.entryPrice * (1 + slPct),
+      stopReason: "SL",
+      bestPrice: trade.entryPrice,
+      tp1Done: exitFills.some(f => f.reason === "TP1"),
+      realizedPnl: exitFills.reduce((sum, f) => sum + (f.pnlUsdt ?? 0), 0),
+      fees: fills.reduce((sum, f) => sum + f.fees, 0),
+      exitedQuantity,
+      exitNotional: exitFills.reduce((sum, f) => sum + f.price * f.quantity, 0),
+      closing: false,
+      protection: newProtection(trade.stopOrderId, trade.tpOrderId),
+    };
+  }
+
+  // Compares DB open trades, the bot's positions and (in live mode) the
+  // exchange's positions and resolves mismatches per reconcilePolicy. A
+  // mismatch is acted on once it shows up on two passes in a row, so an entry
+  // or exit in flight is not mistaken for one; the first pass after boot or a
+  // switch to live acts straight away. Symbols with a mismatch take no new
+  // signals until it clears.
+  private async reconcile() {
+    const firstPass = !this.positionsVerified;
+
+    let held: Position[] | null = null;
+    if (this.isLive) {
+      try {
+        held = await this.api.getPositions();
+      } catch (err) {
+        logger.warn("Could not fetch exchange positions for reconciliation", String(err));
+        return;
+      }
+    }
+    const dbOpen = await loadOpenTrades();
+
+    // Positions with an exit in flight are left alone this pass
+    const positions = Array.from(this.openTrades.values());
+    const busy = new Set(positions.filter(p => p.closing).map(p => p.symbol));
+    const traded = new Set(this.strategies.flatMap(s => s.config.symbols));
+    const mismatches = findMismatches(positions, dbOpen.map(r => r.trade), held, traded)
+      .filter(m => !busy.has(m.symbol));
+    this.logForeignPositions(held ?? [], traded);
+
+    // Checked straight away and adopted whatever the policy; other symbols'
+    // mismatches follow reconcilePolicy
+    const settling = new Set(this.unsettledEntries);
+    const pending = new Set<string>();
+    const blocked = new Set<string>();
+    const resolved: Mismatch[] = [];
+    const unresolved: Mismatch[] = [];
+    for (const mismatch of mismatches) {
+      const key = mismatchKey(mismatch);
+      const unsettled = settling.has(mismatch.symbol);
+      if (!firstPass && !unsettled && !this.pendingMismatches.has(key)) {
+        pending.add(key);
+        blocked.add(mismatch.symbol);
+        continue;
+      }
+
+      let action: string | null = null;
+      try {
+        action = await this.resolveMismatch(mismatch, dbOpen, unsettled ? "ADOPT" : this.config.reconcilePolicy);
+      } catch (err) {
+        logger.error(`Reconciliation could not resolve ${mismatch.kind} on ${mismatch.symbol}`, String(err));
+      }
+
+      if (action) {
+        resolved.push(mismatch);
+        logger.warn(`Reconciliation: ${mismatch.detail}, ${action}`);
+        await this.setLastError(`Reconciliation: ${mismatch.detail}, ${action}`);
+        continue;
+      }
+
+      pending.add(key);
+      blocked.add(mismatch.symbol);
+      unresolved.push(mismatch);
+      if (!this.reportedMismatches.has(key)) {
+        logger.error(`Reconciliation: ${mismatch.detail}, ${mismatch.symbol} blocked (${this.config.reconcilePolicy})`);
+        await this.setLastError(`Reconciliation: ${mismatch.detail}`);
+      }
+    }
+
+    for (const symbol of settling) this.unsettledEntries.delete(symbol);
+    this.pendingMismatches = pending;
+    this.reportedMismatches = new Set(unresolved.map(mismatchKey));
+    this.mismatchedSymbols = blocked;
+
+    const status = unresolved.length > 0 ? "MISMATCH" : resolved.length > 0 ? "RESOLVED" : "OK";
+    const detail = (unresolved.length > 0 ? unresolved : resolved).map(m => m.detail).join("; ") || null;
+    await this.updateReconcileState(status, detail);
+
+    if (firstPass) {
+      for (const position of Array.from(this.openTrades.values())) {
+        await this.verifyProtection(position);
+      }
+      this.positionsVerified = true;
+      logger.info(`Positions reconciled${held ? ` with the exchange (${held.length} held` : " (paper"}, ${this.openTrades.size} managed)`);
+    }
+  }
+
+  // Positions on symbols the bot does not trade are left alone; each is
+  // logged once while it stays open
+  private logForeignPositions(held: Position[], traded: Set<string>) {
+    const foreign = held.filter(p => !traded.has(p.symbol));
+    for (const position of foreign) {
+      if (this.foreignPositions.has(position.symbol)) continue;
+      logger.info(`Ignoring ${position.symbol} position of ${position.positionAmt} on the exchange: not a traded symbol`);
+    }
+    this.foreignPositions = new Set(foreign.map(p => p.symbol));
+  }
+
+  // Applies a reconcile policy to one mismatch. Returns what was done, or null
+  // when the mismatch is left for an operator.
+  private async resolveMismatch(mismatch: Mismatch, dbOpen: OpenTradeRecord[], policy: ReconcilePolicy): Promise<string | null> {
+    if (policy === "ALERT") return null;
+
+    const { symbol, exchange } = mismatch;
+    switch (mismatch.kind) {
+      case "DB_ONLY": {
+        const record = dbOpen.find(r => r.trade.id === mismatch.tradeId);
+        if (!record) return null;
+        if (policy === "ADOPT" && !this.openTrades.has(symbol)) {
+          const position = this.restorePosition(record);
+          this.openTrades.set(symbol, position);
+          await this.verifyProtection(position);
+          return "adopted by the bot";
+        }
+        // Any exchange position left behind shows up as EXCHANGE_ONLY next pass
+        await db.update(trades)
+          .set({ isOpen: false, exitReason: "MANUAL", exitTimestamp: new Date() })
+          .where(eq(trades.id, record.trade.id));
+        return "closed in the DB";
+      }
+      case "NOT_IN_DB":
+        if (policy === "ADOPT") {
+          await db.update(trades)
+            .set({ isOpen: true, exitReason: null, exitTimestamp: null })
+            .where(eq(trades.id, mismatch.tradeId!));
+          return "reopened in the DB";
+        }
+        await this.exitTrade(symbol, "MANUAL");
+        return this.openTrades.has(symbol) ? null : "position closed";
+      case "NOT_ON_EXCHANGE":
+        await this.exitTrade(symbol, "MANUAL", false);
+        return this.openTrades.has(symbol) ? null : "booked as closed at the current price";
+      case "SIZE": {
+        const position = this.openTrades.get(symbol);
+        if (!position || !exchange) return null;
+        if (policy === "ADOPT") {
+          // The trade row keeps the entry size, from which restarts subtract
+          // the exits; the resting stop and TP are resized to match
+          position.quantity = Math.abs(exchange.positionAmt);
+          position.initialQuantity = position.quantity + position.exitedQuantity;
+          await db.update(trades)
+            .set({ quantity: position.initialQuantity })
+            .where(eq(trades.id, position.tradeId));
+          await this.syncProtection(position, true);
+          return `size set to ${position.quantity}`;
+        }
+        await this.exitTrade(symbol, "MANUAL");
+        return this.openTrades.has(symbol) ? null : "position closed";
+      }
+      case "SIDE":
+        if (!exchange) return null;
+        // The bot's side is gone; what the exchange holds is treated as untracked
+        await this.exitTrade(symbol, "MANUAL", false);
+        if (this.openTrades.has(symbol)) return null;
+        return policy === "ADOPT" ? this.adoptExchangePosition(exchange) : this.closeExchangePosition(exchange);
+      case "EXCHANGE_ONLY":
+        if (!exchange) return null;
+        return policy === "ADOPT" ? this.adoptExchangePosition(exchange) : this.closeExchangePosition(exchange);
+    }
+  }
+
+  // Opens a trade for an exchange position the bot has no record of. It is
+  // managed with the primary strategy's reversion exits, timed from now.
+  private async adoptExchangePosition(held: Position): Promise<string> {
+    const strategy = this.strategies[0];
+    const config = strategy.config;
+    const side = held.positionAmt > 0 ? "LONG" : "SHORT";
+    const quantity = Math.abs(held.positionAmt);
+    const symbolSettings = config.symbolSettings[held.symbol];
+
+    const [trade] = await db.insert(trades).values({
+      symbol: held.symbol,
+      side,
+      entryPrice: held.entryPrice,
+      quantity,
+      isOpen: true,
+      variant: "REVERSION",
+      strategyId: strategy.id,
+      tpPct: symbolSettings?.tpPct ?? config.tpPct,
+      slPct: symbolSettings?.slPct ?? config.slPct,
+      timeStopSeconds: config.timeStopSeconds,
+    }).returning();
+    await this.recordFill(trade.id, side === "LONG" ? "BUY" : "SELL", "ENTRY", bookedFill(held.entryPrice, quantity), null);
+
+    const position = this.restorePosition({ trade, fills: [] });
+    this.openTrades.set(held.symbol, position);
+    await this.syncProtection(position, true);
+    return `adopted as trade #${trade.id}`;
+  }
+
+  private async closeExchangePosition(held: Position): Promise<string> {
+    const order = await this.api.marketOrder(held.symbol, held.positionAmt > 0 ? "SELL" : "BUY", Math.abs(held.positionAmt), true);
+    return `closed on the exchange @ ${order.avgPrice.toFixed(2)}`;
+  }
+
+  // Reconciliation passes go through the evaluation queue so they never
+  // overlap an entry; the interval is re-read from the config after each pass
+  private scheduleReconcile() {
+    this.reconcileTimer = setTimeout(() => {
+      this.evaluationQueue = this.evaluationQueue
+        .then(() => this.reconcile())
+        .catch(err => {
+          logger.error("Reconciliation failed", String(err));
+        })
+        .finally(() => {
+          if (this.reconcileTimer) this.scheduleReconcile();
+        });
+    }, this.config.reconcileIntervalSeconds * 1000);
+  }
+
+  // Shown on the dashboard as the bot's last error
+  private async setLastError(message: string) {
+    try {
+      const [existing] = await db.select().from(botStates).orderBy(desc(botStates.id)).limit(1);
+      if (existing) {
+        await db.update(botStates)
+          .set({ lastError: message, errorTimestamp: new Date() })
+          .where(eq(botStates.id, existing.id));
+      }
+    } catch (err) {
+      logger.warn("Could not record last error", String(err));
+    }
+  }
+
+  private async updateReconcileState(status: "OK" | "RESOLVED" | "MISMATCH", detail: string | null) {
+    try {
+      const [existing] = await db.select().from(botStates).orderBy(desc(botStates.id)).limit(1);
+      if (existing) {
+        await db.update(botStates)
+          .set({ reconciledAt: new Date(), reconcileStatus: status, reconcileDetail: detail })
+          .where(eq(botStates.id, existing.id));
+      }
+    } catch (err) {
+      logger.warn("Could not record reconciliation result", String(err));
+    }
+  }
+
+  private strategyFor(strategyId: string): Strategy {
+    return this.strategies.find(s => s.id === strategyId) ?? this.strategies[0];
+  }
+
+  // When the cooldown after an entry at `from` ends
+  private cooldownEnd(strategy: Strategy, symbol: string, from: number): number {
+    const cooldownSeconds = strategy.config.symbolSettings[symbol]?.cooldownSeconds ?? strategy.config.symbolCooldownSeconds;
+    return from + cooldownSeconds * 1000;
+  }
+
+  // Position notional that risks riskPerTradePct of equity at a stop slPct away,
+  // scaled down by the signal score when scoring scales size
+  private targetNotional(strategy: Strategy, intent: TradeIntent, slPct: number): number {
+    return this.equity * strategy.config.riskPerTradePct / slPct * Math.min(1, intent.sizeScale);
+  }
+
+  // The risk-based notional cut to the per-trade margin cap, the available
+  // balance and (live) the leverage bracket, rounded down to the lot step
+  private async entrySize(strategy: Strategy, intent: TradeIntent, slPct: number, price: number, availableBalance: number): Promise<EntrySize> {
+    const plan = limitNotional(this.targetNotional(strategy, intent, slPct), {
+      equity: this.equity,
+      availableBalance,
+      leverage: this.config.leverage,
+      maxMarginPerTradePct: this.config.maxMarginPerTradePct,
+      bracketCap: this.isLive ? await this.brackets.notionalCap(intent.symbol, this.config.leverage) : Infinity,
+    });
+    return { ...plan, quantity: this.api.exchangeInfo.quantity(intent.symbol, plan.notional / price) };
+  }
+
+  // Equity not posted as margin by open positions; stands in for the
+  // exchange's available balance in paper mode and between entries
+  private estimatedAvailableBalance(): number {
+    const openNotional = Array.from(this.openTrades.values()).reduce((sum, p) => sum + p.entryPrice * p.quantity, 0);
+    return this.currentEquity - openNotional / this.config.leverage;
+  }
+
+  // In volatility mode the stop is a multiple of ATR or realized volatility,
+  // clamped to the floor and cap, and TP keeps the intent's reward:risk ratio.
+  // Sizing follows the stop, so the dollar risk per trade stays the same.
+  private stopPlan(strategy: Strategy, intent: TradeIntent): StopPlan {
+    const config = strategy.config;
+    const fixed: StopPlan = { tpPct: intent.tpPct, slPct: intent.slPct, mode: "FIXED", volPct: null };
+    if (config.volMode === "OFF") return fixed;
+
+    const price = this.ws.getPrice(intent.symbol);
+    if (!price) return fixed;
+
+    const volPct = config.volMode === "ATR"
+      ? this.candles.getAtr(intent.symbol, VOL_INTERVAL, VOL_PERIOD) / price
+      : this.candles.getRealizedVol(intent.symbol, VOL_INTERVAL, VOL_PERIOD);
+    if (volPct <= 0) return fixed; // Not enough bars yet
+
+    const slPct = Math.min(config.volSlCapPct, Math.max(config.volSlFloorPct, volPct * config.volStopMult));
+    return {
+      tpPct: intent.tpPct * slPct / intent.slPct,
+      slPct,
+      mode: config.volMode,
+      volPct,
+    };
+  }
+
+  // Portfolio caps checked as if the new position of `notional` were already open
+  private portfolioFailures(intent: TradeIntent, notional: number): string[] {
+    const failures: string[] = [];
+    const positions = Array.from(this.openTrades.values());
+
+    if (positions.length >= this.config.maxConcurrentPositions) {
+      failures.push(`Max open positions (${positions.length}/${this.config.maxConcurrentPositions})`);
+    }
+
+    const totalNotional = positions.reduce((sum, p) => sum + p.entryPrice * p.quantity, 0) + notional;
+    const notionalCap = this.equity * this.config.maxTotalNotionalPct;
+    if (totalNotional > notionalCap) {
+      failures.push(`Total notional $${totalNotional.toFixed(0)} > $${notionalCap.toFixed(0)} cap`);
+    }
+
+    const totalMargin = totalNotional / this.config.leverage;
+    const marginCap = this.equity * this.config.maxTotalMarginPct;
+    if (totalMargin > marginCap) {
+      failures.push(`Total margin $${totalMargin.toFixed(0)} > $${marginCap.toFixed(0)} cap`);
+    }
+
+    if (CORRELATED_SYMBOLS.includes(intent.symbol)) {
+      const sameSide = positions.filter(p => CORRELATED_SYMBOLS.includes(p.symbol) && p.side === intent.side);
+      if (sameSide.length >= this.config.maxCorrelatedPositions) {
+        failures.push(`BTC/ETH correlation cap (${sameSide.map(p => p.symbol).join(", ")} already ${intent.side})`);
+      }
+    }
+
+    return failures;
+  }
+
+  private async enterTrade(strategy: Strategy, intent: TradeIntent, stops: StopPlan) {
+    const { symbol, side, variant } = intent;
+    const price = this.ws.getPrice(symbol);
+    if (!price) {
+      logger.error(`No price available for ${symbol}`);
+      return;
+    }
+
+    // Calculate position size; the price may have moved since the signal was
+    // checked and live entries size against the exchange's available balance
+    const availableBalance = this.isLive
+      ? await this.api.getUsdtBalance().catch(() => this.estimatedAvailableBalance())
+      : this.estimatedAvailableBalance();
+    const size = await this.entrySize(strategy, intent, stops.slPct, price, availableBalance);
+    const rejection = this.api.exchangeInfo.rejection(symbol, size.quantity, price);
+    if (rejection) {
+      logger.warn(`Entry skipped: ${strategy.id}/${variant} ${side} ${symbol} - ${rejection}`);
+      return;
+    }
+    if (size.limit) {
+      logger.info(`${symbol} size reduced ${(size.reductionPct * 100).toFixed(0)}% (${size.limit}: ${size.detail})`);
+    }
+    const quantity = size.quantity;
+
+    const orderSide = side === "LONG" ? "BUY" : "SELL";
+
+    try {
+      const fill = await this.entries.execute({ symbol, side: orderSide, quantity, settings: strategy.config }, this.isLive);
+      if (fill.quantity <= 0) {
+        logger.info(`Entry not filled: ${strategy.id}/${variant} ${side} ${symbol} (${fill.mode}, ${fill.timeToFillMs}ms)`);
+        return;
+      }
+
+      const avgPrice = fill.price;
+      const executedQty = fill.quantity;
+      const slippage = Math.abs(avgPrice - price) / price * 100;
+
+      logger.info(`Trade opened: ${strategy.id}/${variant} ${side} ${symbol} @ ${avgPrice.toFixed(2)} (${fill.mode}, filled ${(fill.fillRatio * 100).toFixed(0)}% by limit, slippage: ${slippage.toFixed(3)}%, exec: ${fill.timeToFillMs}ms)`);
+      logger.info(`${symbol} stops (${stops.mode}): TP ${(stops.tpPct * 100).toFixed(3)}%, SL ${(stops.slPct * 100).toFixed(3)}%${stops.volPct !== null ? `, vol ${(stops.volPct * 100).toFixed(3)}%` : ""}`);
+
+      // Record trade in database
+      const [newTrade] = await db.insert(trades).values({
+        symbol,
+        side,
+        entryPrice: avgPrice,
+        quantity: executedQty,
+        isOpen: true,
+        setupId: intent.setupId,
+        variant,
+        strategyId: strategy.id,
+        slippageEst: slippage,
+        tpPct: stops.tpPct,
+        slPct: stops.slPct,
+        stopMode: stops.mode,
+        volPct: stops.volPct,
+        timeStopSeconds: intent.timeStopSeconds,
+        entryMode: fill.mode,
+        fillRatio: fill.fillRatio,
+        timeToFillMs: fill.timeToFillMs,
+        sizeReductionPct: size.limit ? size.reductionPct : null,
+        sizeLimit: size.limit,
+        fees: fill.fees,
+        commissionAsset: fill.commissionAsset,
+      }).returning();
+
+      await this.recordFill(newTrade.id, orderSide, "ENTRY", fill, null);
+      if (fill.unconfirmed) this.settleByReconcile(symbol);
+
+      const position: OpenTrade = {
+        strategyId: strategy.id,
+        symbol,
+        entryPrice: avgPrice,
+        initialQuantity: executedQty,
+        quantity: executedQty,
+        side,
+        variant,
+        tpPct: stops.tpPct,
+        slPct: stops.slPct,
+        timeStopSeconds: intent.timeStopSeconds,
+        entryTime: Date.now(),
+        tradeId: newTrade.id,
+        exits: {
+          breakevenEnabled: strategy.config.breakevenEnabled,
+          breakevenTriggerPct: strategy.config.breakevenTriggerPct,
+          trailMode: strategy.config.trailMode,
+          trailTriggerPct: strategy.config.trailTriggerPct,
+          trailPct: strategy.config.trailPct,
+          trailAtrMult: strategy.config.trailAtrMult,
+          scaleOutEnabled: strategy.config.scaleOutEnabled,
+          tp1Pct: strategy.config.tp1Pct,
+          tp1ClosePct: strategy.config.tp1ClosePct,
+        },
+        stopPrice: side === "LONG" ? avgPrice * (1 - stops.slPct) : avgPrice * (1 + stops.slPct),
+        stopReason: "SL",
+        bestPrice: avgPrice,
+        tp1Done: false,
+        realizedPnl: 0,
+        fees: fill.fees,
+        exitedQuantity: 0,
+        exitNotional: 0,
+        closing: false,
+        protection: newProtection(),
+      };
+      this.openTrades.set(symbol, position);
+      await this.syncProtection(position, true);
+
+      // Set cooldown
+      this.symbolCooldowns.set(symbol, this.cooldownEnd(strategy, symbol, Date.now()));
+
+      // Update metrics; the entry commission counts against today's PnL
+      this.todayPnl -= fill.fees;
+      this.todayTradeCount++;
+      await this.updateMetrics();
+
+    } catch (err) {
+      logger.error(`Failed to enter trade: ${symbol} ${side}`, String(err));
+      // A failed live order may still have filled
+      if (this.isLive) this.settleByReconcile(symbol);
+    }
+  }
+
+  // Blocks the symbol and runs a reconciliation pass after the current
+  // evaluation, which adopts any position the exchange holds there
+  private settleByReconcile(symbol: string) {
+    logger.warn(`${symbol} entry unconfirmed, reconciling with the exchange`);
+    this.unsettledEntries.add(symbol);
+    this.mismatchedSymbols.add(symbol);
+    this.evaluationQueue = this.evaluationQueue
+      .then(() => this.reconcile())
+      .catch(err => {
+        logger.error("Reconciliation failed", String(err));
+      });
+  }
+
+  private startPositionMonitor() {
+    setInterval(async () => {
+      for (const position of Array.from(this.openTrades.values())) {
+        if (position.closing) continue;
+        await this.checkExit(position);
+      }
+    }, 100); // Check every 100ms for fast exits
+  }
+
+  private async checkExit(position: OpenTrade) {
+    const { symbol, entryPrice, side, entryTime, tpPct, timeStopSeconds, exits } = position;
+    const currentPrice = this.ws.getPrice(symbol);
+    if (!currentPrice) return;
+
+    this.updateStop(position, currentPrice);
+    void this.syncProtection(position);
+
+    const pnlPct = side === "LONG"
+      ? (currentPrice - entryPrice) / entryPrice
+      : (entryPrice - currentPrice) / entryPrice;
+
+    const stopHit = side === "LONG"
+      ? currentPrice <= position.stopPrice
+      : currentPrice >= position.stopPrice;
+
+    const timeInTrade = (Date.now() - entryTime) / 1000;
+
+    // Check exit conditions
+    let exitReason: string | null = null;
+
+    // Exits use the values captured from the intent at entry
+    if (pnlPct >= tpPct) {
+      exitReason = "TP";
+    } else if (stopHit) {
+      exitReason = position.stopReason;
+    } else if (timeInTrade >= timeStopSeconds) {
+      exitReason = "TIME_STOP";
+    }
+
+    if (exitReason) {
+      await this.exitTrade(symbol, exitReason);
+    } else if (exits.scaleOutEnabled && !position.tp1Done && exits.tp1Pct < tpPct && pnlPct >= exits.tp1Pct) {
+      await this.takePartialProfit(position);
+    }
+  }
+
+  // First rung of the scale-out ladder: close tp1ClosePct of the entry size
+  // and leave the rest to the final TP, the trailing stop or the time stop
+  private async takePartialProfit(position: OpenTrade) {
+    const { symbol, side, tradeId, exits } = position;
+    const quantity = this.api.exchangeInfo.quantity(symbol, position.initialQuantity * exits.tp1ClosePct);
+
+    if (quantity <= 0) {
+      position.tp1Done = true; // Smaller than one lot step; the rest exits at TP
+      return;
+    }
+    if (Date.now() < (this.tp1RetryAt.get(symbol) ?? 0)) return;
+    position.closing = true;
+
+    try {
+      // TP1 only counts as done (moving break-even and trailing on) once a
+      // partial fill is booked; a failed close is retried
+      const fill = await this.closeQuantity(position, quantity, "TP1", false);
+      if (fill.quantity <= 0) {
+        this.tp1RetryAt.set(symbol, Date.now() + TP1_RETRY_MS);
+        return;
+      }
+      position.tp1Done = true;
+      this.tp1RetryAt.delete(symbol);
+      logger.info(`TP1 partial: ${side} ${symbol} closed ${fill.quantity.toFixed(4)} @ ${fill.price.toFixed(2)} - PnL: $${fill.pnlUsdt.toFixed(2)}, ${position.quantity.toFixed(4)} left`);
+
+      await db.update(trades)
+        .set({ pnlUsdt: position.realizedPnl, fees: position.fees })
+        .where(eq(trades.id, tradeId));
+
+      await this.updateMetrics();
+    } catch (err) {
+      if (!position.tp1Done) this.tp1RetryAt.set(symbol, Date.now() + TP1_RETRY_MS);
+      logger.error(`Failed to take TP1 on ${symbol}`, String(err));
+    } finally {
+      position.closing = false;
+    }
+  }
+
+  // Closes `quantity` of the position (all of it when `all` is set), records
+  // the fill and adds it to the position's running totals and today's PnL
+  // (net of commission). Live fills are read back from the exchange, so PnL
+  // and commission are Binance's; paper fills use the fee model. Without
+  // `onExchange` no order is sent and the fill is booked at the current price
+  // (the exchange no longer holds the position).
+  private async closeQuantity(position: OpenTrade, quantity: number, reason: string, all: boolean, onExchange = true): Promise<ExitFill> {
+    const { symbol, entryPrice, side, tradeId } = position;
+    const orderSide = side === "LONG" ? "SELL" : "BUY";
+    const rates = this.strategyFor(position.strategyId).config;
+    const price = this.ws.getPrice(symbol) || entryPrice;
+    let fill: OrderFill;
+
+    // In paper mode, simulate the exit
+    if (!this.isLive) {
+      logger.info(`[PAPER] Simulated ${all ? "exit" : "partial exit"} ${side} ${symbol} @ ${price.toFixed(2)}`);
+      fill = modelFill(price, quantity, false, rates);
+    } else if (!onExchange) {
+      logger.info(`Booked ${side} ${symbol} exit @ ${price.toFixed(2)} without an order`);
+      fill = bookedFill(price, quantity);
+    } else if (all) {
+      // Close whatever the exchange still holds; if it holds nothing it was
+      // usually flattened by the resting stop or TP, whose fill is used, else
+      // the remainder is booked at the current price
+      const positions = await this.api.getPositions();
+      const pos = positions.find(p => p.symbol === symbol);
+
+      if (pos) {
+        const order = await this.api.marketOrder(symbol, orderSide, Math.abs(pos.positionAmt), true);
+        fill = await this.exitOrderFill(order, price, Math.abs(pos.positionAmt), rates);
+      } else {
+        fill = await this.protectiveFill(position, rates) ?? bookedFill(price, quantity);
+      }
+    } else {
+      const order = await this.api.marketOrder(symbol, orderSide, quantity, true);
+      fill = await this.exitOrderFill(order, price, quantity, rates);
+    }
+
+    const pnlPct = side === "LONG"
+      ? (fill.price - entryPrice) / entryPrice
+      : (entryPrice - fill.price) / entryPrice;
+    const pnlUsdt = fill.realizedPnl ?? entryPrice * fill.quantity * pnlPct;
+    const fees = fill.fees;
+
+    await this.recordFill(tradeId, orderSide, reason, fill, pnlUsdt);
+
+    position.quantity = Math.max(0, position.quantity - fill.quantity);
+    position.realizedPnl += pnlUsdt;
+    position.fees += fees;
+    position.exitedQuantity += fill.quantity;
+    position.exitNotional += fill.price * fill.quantity;
+    this.todayPnl += pnlUsdt - fees;
+
+    return { price: fill.price, quantity: fill.quantity, pnlUsdt, fees };
+  }
+
+  // An exit order's fill; one that reports nothing executed or cannot be
+  // confirmed is booked at the current price for the requested size
+  private async exitOrderFill(order: OrderResult, price: number, quantity: number, rates: FeeRates): Promise<OrderFill> {
+    try {
+      const fill = await this.fills.fillOf(order, false, rates);
+      if (fill.quantity > 0) return fill;
+    } catch (err) {
+      logger.warn(`${order.symbol} exit fill unconfirmed, booking it at the current price`, String(err));
+    }
+    return modelFill(price, quantity, false, rates, order.orderId);
+  }
+
+  // Fill of the exchange's liquidation order or of a resting stop or
+  // take-profit order that has triggered, if any
+  private async protectiveFill(position: OpenTrade, rates: FeeRates): Promise<OrderFill | null> {
+    const { symbol, protection } = position;
+    const liquidation = this.liquidations.get(symbol);
+    if (liquidation) {
+      const fill = await this.fills.orderFill(symbol, liquidation.orderId, liquidation.quantity);
+      if (fill) return fill;
+    }
+    for (const orderId of [protection.stopOrderId, protection.tpOrderId]) {
+      if (orderId === null) continue;
+      try {
+        const order = await this.api.getOrder(symbol, orderId);
+        if (order.executedQty > 0) return await this.fills.fillOf(order, false, rates);
+      } catch (err) {
+        logger.warn(`Could not check ${symbol} order ${orderId}`, String(err));
+      }
+    }
+    return null;
+  }
+
+  private async recordFill(
+    tradeId: number,
+    side: "BUY" | "SELL",
+    reason: string,
+    fill: OrderFill,
+    pnlUsdt: number | null,
+  ) {
+    try {
+      await db.insert(tradeFills).values({
+        tradeId,
+        side,
+        reason,
+        price: fill.price,
+        quantity: fill.quantity,
+        pnlUsdt,
+        fees: fill.fees,
+        commission: fill.commission,
+        commissionAsset: fill.commissionAsset,
+        orderId: fill.orderId,
+      });
+    } catch (err) {
+      logger.warn(`Could not record ${reason} fill for trade ${tradeId}`, String(err));
+    }
+  }
+
+  // Ratchets the stop: to entry once the break-even trigger is reached, then
+  // behind the best price once the trail trigger is reached. A stop is never
+  // moved back against the position.
+  private updateStop(position: OpenTrade, price: number) {
+    const { symbol, side, entryPrice, exits } = position;
+    const isLong = side === "LONG";
+
+    position.bestPrice = isLong ? Math.max(position.bestPrice, price) : Math.min(position.bestPrice, price);
+    const bestMovePct = isLong
+      ? (position.bestPrice - entryPrice) / entryPrice
+      : (entryPrice - position.bestPrice) / entryPrice;
+
+    const improves = (stop: number) => isLong ? stop > position.stopPrice : stop < position.stopPrice;
+
+    if (exits.breakevenEnabled && bestMovePct >= exits.breakevenTriggerPct && improves(entryPrice)) {
+      position.stopPrice = entryPrice;
+      position.stopReason = "BREAKEVEN";
+      logger.info(`${symbol} stop moved to break-even @ ${entryPrice.toFixed(2)}`);
+    }
+
+    if (exits.trailMode !== "OFF" && bestMovePct >= exits.trailTriggerPct) {
+      // ATR needs a few minutes of bars; fall back to the percentage distance until then
+      const atr = exits.trailMode === "ATR" ? this.candles.getAtr(symbol, ATR_INTERVAL, ATR_PERIOD) : 0;
+      const distance = atr > 0 ? atr * exits.trailAtrMult : position.bestPrice * exits.trailPct;
+      const trailStop = isLong ? position.bestPrice - distance : position.bestPrice + distance;
+
+      if (improves(trailStop)) {
+        if (position.stopReason !== "TRAIL") {
+          logger.info(`${symbol} trailing stop engaged @ ${trailStop.toFixed(2)} (${atr > 0 ? `${exits.trailAtrMult}x ATR` : `${(exits.trailPct * 100).toFixed(2)}%`})`);
+        }
+        position.stopPrice = trailStop;
+        position.stopReason = "TRAIL";
+      }
+    }
+  }
+
+  // Live positions keep a reduce-only STOP_MARKET at the monitor's stop and a
+  // TAKE_PROFIT_MARKET at TP on the exchange, so they stay protected if the
+  // bot or its price feed goes down. The stop is replaced once it has moved
+  // STOP_AMEND_PCT, both orders when the size changed (after TP1); the new
+  // order is placed before the old one is cancelled.
+  private syncProtection(position: OpenTrade, force = false): Promise<void> {
+    const protection = position.protection;
+    if (!this.isLive || protection.released || protection.pending) return protection.queue;
+    if (!force && Date.now() < protection.retryAt) return protection.queue;
+
+    protection.pending = true;
+    return this.queueProtection(position, async () => {
+      protection.pending = false;
+      if (protection.released || position.quantity <= 0) return;
+
+      const resized = protection.quantity !== position.quantity;
+      const stopMoved = protection.stopPrice === null ||
+        Math.abs(position.stopPrice - protection.stopPrice) / position.stopPrice >= STOP_AMEND_PCT;
+      if (!force && !resized && !stopMoved) return;
+
+      const { symbol, side, entryPrice, tpPct } = position;
+      const exitSide = side === "LONG" ? "SELL" : "BUY";
+      const stale: number[] = [];
+
+      const stop = await this.api.protectiveOrder(symbol, exitSide, "STOP_MARKET", position.stopPrice, position.quantity);
+      if (protection.stopOrderId !== null) stale.push(protection.stopOrderId);
+      protection.stopOrderId = stop.orderId;
+      protection.stopPrice = position.stopPrice;
+
+      if (force || resized || protection.tpOrderId === null) {
+        const tpPrice = side === "LONG" ? entryPrice * (1 + tpPct) : entryPrice * (1 - tpPct);
+        const tp = await this.api.protectiveOrder(symbol, exitSide, "TAKE_PROFIT_MARKET", tpPrice, position.quantity);
+        if (protection.tpOrderId !== null) stale.push(protection.tpOrderId);
+        protection.tpOrderId = tp.orderId;
+      }
+      protection.quantity = position.quantity;
+
+      await db.update(trades)
+        .set({ stopOrderId: protection.stopOrderId, tpOrderId: protection.tpOrderId })
+        .where(eq(trades.id, position.tradeId));
+
+      for (const orderId of stale) {
+        await this.cancelOrderQuietly(symbol, orderId);
+      }
+    });
+  }
+
+  // Checks the resting orders are still working on the exchange and replaces
+  // any that are gone (cancelled by hand, expired or lost over a restart). A
+  // resting stop tighter than the monitor's, e.g. a trail from before a
+  // restart, is taken over by the monitor.
+  private async verifyProtection(position: OpenTrade) {
+    if (!this.isLive) return;
+    const protection = position.protection;
+    const { symbol, side, entryPrice } = position;
+    let intact = true;
+
+    await this.queueProtection(position, async () => {
+      if (protection.released) return;
+      if (protection.stopOrderId === null || protection.tpOrderId === null) intact = false;
+
+      for (const orderId of [protection.stopOrderId, protection.tpOrderId]) {
+        if (orderId === null) continue;
+        const order = await this.api.getOrder(symbol, orderId).catch(() => null);
+        if (!order || order.status !== "NEW") {
+          intact = false;
+          continue;
+        }
+        if (orderId !== protection.stopOrderId) continue;
+
+        protection.stopPrice = order.stopPrice;
+        protection.quantity = order.origQty;
+        const tighter = side === "LONG" ? order.stopPrice > position.stopPrice : order.stopPrice < position.stopPrice;
+        if (tighter) {
+          position.stopPrice = order.stopPrice;
+          const pastEntry = side === "LONG" ? order.stopPrice > entryPrice : order.stopPrice < entryPrice;
+          position.stopReason = order.stopPrice === entryPrice ? "BREAKEVEN" : pastEntry ? "TRAIL" : "SL";
+        }
+      }
+    });
+
+    if (!intact && !protection.released) {
+      logger.warn(`${symbol} protective orders missing on the exchange, placing them again`);
+      await this.syncProtection(position, true);
+    }
+  }
+
+  // Cancels the resting orders once the position is closed; an order that
+  // already triggered or was cancelled elsewhere is ignored
+  private cancelProtection(position: OpenTrade): Promise<void> {
+    const protection = position.protection;
+    protection.released = true;
+    return this.queueProtection(position, async () => {
+      for (const orderId of [protection.stopOrderId, protection.tpOrderId]) {
+        if (orderId !== null) await this.cancelOrderQuietly(position.symbol, orderId);
+      }
+      protection.stopOrderId = null;
+      protection.tpOrderId = null;
+    });
+  }
+
+  private queueProtection(position: OpenTrade, task: () => Promise<void>): Promise<void> {
+    const protection = position.protection;
+    protection.queue = protection.queue.then(task).catch(err => {
+      protection.pending = false;
+      protection.retryAt = Date.now() + PROTECTION_RETRY_MS;
+      logger.warn(`Could not update ${position.symbol} protective orders`, String(err));
+    });
+    return protection.queue;
+  }
+
+  private async cancelOrderQuietly(symbol: string, orderId: number) {
+    try {
+      await this.api.cancelOrder(symbol, orderId);
+    } catch (err) {
+      logger.warn(`Could not cancel ${symbol} order ${orderId}`, String(err));
+    }
+  }
+
+  private async refreshWalletBalance() {
+    try {
+      this.walletBalance = await this.api.getUsdtWalletBalance();
+    } catch (err) {
+      logger.warn("Could not refresh wallet balance", String(err));
+    }
+  }
+
+  // Executions are kept for fill lookups. A position the exchange closed on
+  // its own (liquidation, or a resting stop or take-profit that filled) is
+  // booked right away instead of waiting for the monitor or reconciliation.
+  private async onOrderUpdate(update: OrderUpdate) {
+    const { symbol, orderId } = update;
+    if ((update.executionType === "TRADE" || update.executionType === "CALCULATED") && update.lastFilledQty > 0) {
+      this.fills.addExecution({
+        orderId,
+        price: update.lastFilledPrice,
+        qty: update.lastFilledQty,
+        commission: update.commission,
+        commissionAsset: update.commissionAsset,
+        realizedPnl: update.realizedPnl,
+        maker: update.maker,
+        time: update.time,
+      });
+    }
+    if (update.status !== "FILLED") return;
+
+    const position = this.openTrades.get(symbol);
+    if (!position) return;
+
+    const liquidated = update.orderType === "LIQUIDATION" || update.clientOrderId.startsWith("autoclose-") || update.clientOrderId.startsWith("adl_autoclose");
+    if (liquidated) {
+      const message = `${position.side} ${symbol} liquidated @ ${update.avgPrice} (order ${orderId})`;
+      logger.error(message);
+      await this.setLastError(message);
+      // An exit already in flight picks the liquidation fill up
+      this.liquidations.set(symbol, { orderId, quantity: update.cumulativeQty });
+      if (!position.closing) await this.exitTrade(symbol, "LIQUIDATION");
+      return;
+    }
+
+    if (position.closing) return;
+    if (orderId === position.protection.stopOrderId) {
+      logger.info(`${symbol} exchange stop filled @ ${update.avgPrice}`);
+      await this.exitTrade(symbol, position.stopReason);
+    } else if (orderId === position.protection.tpOrderId) {
+      logger.info(`${symbol} exchange take-profit filled @ ${update.avgPrice}`);
+      await this.exitTrade(symbol, "TP");
+    }
+  }
+
+  private async onAccountUpdate(update: AccountUpdate) {
+    const usdt = update.balances.find(b => b.asset === "USDT");
+    if (!usdt) return;
+
+    this.walletBalance = usdt.walletBalance;
+    // Order fills are reflected when the trade is booked; other changes
+    // (funding, transfers) move equity on their own
+    if (update.reason !== "ORDER") {
+      logger.info(`Wallet balance $${usdt.walletBalance.toFixed(2)} after ${update.reason} (${usdt.balanceChange >= 0 ? "+" : ""}${usdt.balanceChange.toFixed(2)})`);
+      await this.updateMetrics();
+    }
+  }
+
+  // Positions near liquidation; surfaced as the bot's last error
+  private async onMarginCall(call: MarginCall) {
+    for (const p of call.positions) {
+      const message = `Margin call: ${p.symbol} ${p.positionAmt} @ mark ${p.markPrice}, unrealized $${p.unrealizedPnl.toFixed(2)}, maintenance margin $${p.maintenanceMargin.toFixed(2)}`;
+      logger.error(message);
+      await this.setLastError(message);
+    }
+  }
+
+  private async exitTrade(symbol: string, exitReason: string, onExchange = true) {
+    const position = this.openTrades.get(symbol);
+    if (!position) return;
+
+    const { entryPrice, initialQuantity, side, entryTime, tradeId } = position;
+    position.closing = true;
+
+    try {
+      await this.closeQuantity(position, position.quantity, exitReason, true, onExchange);
+      // Booked; the monitor must not exit it again even if a write below fails
+      this.openTrades.delete(symbol);
+      this.liquidations.delete(symbol);
+      this.tp1RetryAt.delete(symbol);
+      await this.cancelProtection(position);
+
+      // Trade totals span every fill: VWAP exit price, summed PnL and
+      // commission (entry included); wins and losses count net of commission
+      const pnlUsdt = position.realizedPnl;
+      const fees = position.fees;
+      const netPnlUsdt = pnlUsdt - fees;
+      const exitPrice = position.exitedQuantity > 0 ? position.exitNotional / position.exitedQuantity : entryPrice;
+      const pnlPct = pnlUsdt / (entryPrice * initialQuantity);
+      const duration = Math.floor((Date.now() - entryTime) / 1000);
+
+      logger.info(`Trade closed: ${side} ${symbol} - PnL: $${pnlUsdt.toFixed(2)} (${(pnlPct * 100).toFixed(2)}%), net $${netPnlUsdt.toFixed(2)} after $${fees.toFixed(2)} fees - ${exitReason}${position.tp1Done ? " (after TP1)" : ""}`);
+
+      // Update trade in database
+      await db.update(trades)
+        .set({
+          exitPrice,
+          pnlUsdt,
+          pnlPct,
+          duration,
+          fees,
+          netPnlUsdt,
+          exitReason,
+          exitTimestamp: new Date(),
+          isOpen: false,
+        })
+        .where(eq(trades.id, tradeId));
+
+      // Update metrics; today's PnL already includes each fill
+      if (netPnlUsdt >= 0) {
+        this.consecutiveLosses = 0;
+        this.todayWinCount++;
+      } else {
+        this.consecutiveLosses++;
+        this.todayLossCount++;
+      }
+
+      await this.updateMetrics();
+      await this.enforceRiskLimits();
+
+    } catch (err) {
+      logger.error(`Failed to exit trade`, String(err));
+    } finally {
+      position.closing = false;
+    }
+  }
+
+  private async logMarketEvent(
+    strategyId: string,
+    evaluation: SignalEvaluation,
+    passed: boolean,
+    rejectionReason: string | null,
+  ) {
+    const { cascade, criteria, variant } = evaluation;
+
+    await db.insert(marketEvents).values({
+      symbol: cascade.symbol,
+      liquidationUsd: cascade.totalUsd,
+      liquidationSide: cascade.side === "BUY" ? "LONG" : "SHORT",
+      liquidationCount: cascade.count,
+      cascadeDurationMs: cascade.durationMs,
+      cascadeVwap: cascade.vwap,
+      volumeMult: criteria.volumeMult,
+      recentVolumeUsd: criteria.recentVolumeUsd,
+      baselineVolumeUsd: criteria.baselineVolumeUsd,
+      spreadBps: criteria.spreadBps,
+      priceDelta: criteria.priceDelta,
+      exhaustionCandles: criteria.exhaustionCandles,
+      liqSizeOk: criteria.liqSizeOk,
+      volumeOk: criteria.volumeOk,
+      spreadOk: criteria.spreadOk,
+      momentumOk: criteria.momentumOk,
+      exhaustionOk: criteria.exhaustionOk,
+      breakoutOk: criteria.breakoutOk,
+      bookImbalance: criteria.bookImbalance,
+      depthBidUsd: criteria.depthBidUsd,
+      depthAskUsd: criteria.depthAskUsd,
+      imbalanceOk: criteria.imbalanceOk,
+      depthOk: criteria.depthOk,
+      fundingRate: criteria.fundingRate,
+      fundingSecondsLeft: criteria.fundingSecondsLeft,
+      oiChangePct: criteria.oiChangePct,
+      fundingOk: criteria.fundingOk,
+      oiDropOk: criteria.oiDropOk,
+      fundingTimeOk: criteria.fundingTimeOk,
+      score: evaluation.score,
+      scoreContributions: evaluation.contributions,
+      variant,
+      strategyId,
+      passed,
+      rejectionReason,
+    });
+  }
+
+  private async updateBotState(status: string) {
+    const pause = this.riskPause.current;
+    const [existing] = await db.select().from(botStates).orderBy(desc(botStates.id)).limit(1);
+
+    if (existing) {
+      await db.update(botStates).set({
+        status,
+        lastHeartbeat: new Date(),
+        tradingMode: this.isLive ? "live" : "paper",
+        runningConfigVersion: this.config.version,
+        pauseReason: pause?.reason ?? null,
+        resumeAt: pause ? new Date(pause.resumeAt) : null,
+      }).where(eq(botStates.id, existing.id));
+    } else {
+      await db.insert(botStates).values({
+        status,
+        tradingMode: this.isLive ? "live" : "paper",
+        runningConfigVersion: this.config.version,
+        pauseReason: pause?.reason ?? null,
+        resumeAt: pause ? new Date(pause.resumeAt) : null,
+      });
+    }
+  }
+
+  private async updateHealth(api: boolean, ws: boolean, dbConn: boolean) {
+    const [existing] = await db.select().from(healthChecks).orderBy(desc(healthChecks.id)).limit(1);
+
+    const healthStatus = api && ws && dbConn ? "healthy" : "degraded";
+
+    if (existing) {
+      await db.update(healthChecks).set({
+        status: healthStatus,
+        apiConnected: api,
+        wsConnected: ws,
+        dbConnected: dbConn,
+        lastCheck: new Date(),
+      }).where(eq(healthChecks.id, existing.id));
+    } else {
+      await db.insert(healthChecks).values({
+        status: healthStatus,
+        apiConnected: api,
+        wsConnected: ws,
+        dbConnected: dbConn,
+      });
+    }
+  }
+
+  // Upserts the current trading day's row; closedAt marks the day as finished
+  private async updateMetrics(closedAt: Date | null = null) {
+    const closedCount = this.todayWinCount + this.todayLossCount;
+
+    const [existing] = await db.select().from(metrics).where(eq(metrics.tradingDay, this.tradingDay)).limit(1);
+
+    const metricsData = {
+      tradingDay: this.tradingDay,
+      closedAt,
+      equityUsdt: this.currentEquity,
+      equityZar: this.currentEquity * 18.5,
+      todayPnlUsdt: this.todayPnl,
+      todayPnlPct: this.todayPnl / this.equity,
+      todayMaxDrawdownPct: Math.abs(Math.min(0, this.todayPnl)) / this.equity,
+      dailyLossRemaining: this.equity * this.config.dailyMaxLossPct - Math.abs(Math.min(0, this.todayPnl)),
+      tradesRemaining: this.config.maxTradesPerDay - this.todayTradeCount,
+      consecutiveLosses: this.consecutiveLosses,
+      todayTradeCount: this.todayTradeCount,
+      todayWinCount: this.todayWinCount,
+      todayLossCount: this.todayLossCount,
+      winRate: closedCount > 0 ? this.todayWinCount / closedCount : 0,
+      date: new Date(),
+    };
+
+    if (existing) {
+      await db.update(metrics).set(metricsData).where(eq(metrics.id, existing.id));
+    } else {
+      await db.insert(metrics).values(metricsData);
+    }
+  }
+
+  private startHeartbeat() {
+    setInterval(async () => {
+      try {
+        await db.update(botStates)
+          .set({ lastHeartbeat: new Date() })
+          .where(eq(botStates.id, 1));
+
+        await this.updateHealth(true, this.ws.connected, true);
+        await this.rollTradingDay();
+        await this.resumeIfPauseExpired();
+      } catch (err) {
+        // Tried again on the next tick
+        logger.error("Heartbeat failed", String(err));
+      }
+    }, 5000);
+  }
+
+  async pause() {
+    this.isPaused = true;
+    await this.updateBotState(this.status);
+    logger.info("Trading paused");
+  }
+
+  // Lifts a manual pause; a running risk-limit pause still holds
+  async resume() {
+    this.isPaused = false;
+    await this.updateBotState(this.status);
+    logger.info(this.riskPause.current ? "Manual pause lifted, risk-limit pause still active" : "Trading resumed");
+  }
+
+  // Operator override of a risk-limit pause before it expires
+  async overrideRiskPause() {
+    const lifted = this.riskPause.override(this.config, Date.now());
+    if (!lifted) {
+      throw new Error("Trading is not paused by a risk limit");
+    }
+
+    if (lifted.reason === "CONSECUTIVE_LOSSES") {
+      this.consecutiveLosses = 0;
+      await this.updateMetrics();
+    }
+    logger.warn(`Risk pause (${lifted.reason}) overridden by operator`);
+    await this.updateBotState(this.status);
+  }
+
+  configVersion(strategyId: string): number | undefined {
+    return this.strategies.find(s => s.id === strategyId)?.config.version;
+  }
+
+  // Published configs apply straight away: risk limits and pause settings at
+  // once, TP/SL, time stop and exit management from the next entry. Open
+  // positions keep the values captured when they were entered.
+  async applyConfig(strategyId: string, config: Config) {
+    const strategy = this.strategies.find(s => s.id === strategyId);
+    if (!strategy) return;
+
+    const previous = strategy.config;
+
+    // WebSocket subscriptions are fixed at startup, so the symbol list cannot change at runtime
+    if (config.symbols.join(",") !== previous.symbols.join(",")) {
+      logger.warn(`${strategyId} config v${config.version} changes symbols to ${config.symbols.join(", ")} - restart the bot to apply`);
+    }
+
+    strategy.applyConfig({ ...config, symbols: previous.symbols });
+    logger.info(`${strategyId} config v${config.version} applied (was v${previous.version})`);
+
+    // Only the primary strategy's config carries the account-wide settings
+    if (strategy !== this.strategies[0]) return;
+
+    const account = this.config;
+    this.config = { ...config, symbols: account.symbols };
+
+    if (this.isLive && config.leverage !== account.leverage) {
+      for (const symbol of this.config.symbols) {
+        try {
+          await this.api.setLeverage(symbol, config.leverage);
+        } catch (err) {
+          logger.warn(`Failed to set leverage for ${symbol}`, String(err));
+        }
+      }
+    }
+
+    try {
+      const [existing] = await db.select().from(botStates).orderBy(desc(botStates.id)).limit(1);
+      if (existing) {
+        await db.update(botStates)
+          .set({ runningConfigVersion: config.version })
+          .where(eq(botStates.id, existing.id));
+      }
+    } catch (err) {
+      logger.warn("Could not record running config version", String(err));
+    }
+  }
+
+  get hasOpenTrade(): boolean {
+    return this.openTrades.size > 0;
+  }
+
+  setLiveMode(isLive: boolean) {
+    const wasLive = this.isLive;
+    this.isLive = isLive;
+    if (wasLive !== isLive) {
+      logger.info(`Trading mode updated: ${isLive ? "LIVE" : "PAPER"}`);
+      // Open positions are checked against the exchange on the next reconciliation pass
+      if (isLive) this.positionsVerified = false;
+      if (isLive) {
+        this.userStream.start();
+      } else {
+        this.userStream.stop();
+        this.walletBalance = null;
+      }
+    }
+  }
+
+  // Closes every position and pauses trading. The shutdown flatten passes
+  // pauseAfter = false so the pause is not persisted into the next boot.
+  async flatten(pauseAfter = true) {
+    logger.warn("EMERGENCY FLATTEN - Closing all positions");
+
+    // In paper mode, just exit any simulated trade
+    if (this.isLive) {
+      await this.api.closeAllPositions();
+    } else {
+      logger.info("[PAPER] Simulated flatten - no real positions to close");
+    }
+
+    for (const symbol of Array.from(this.openTrades.keys())) {
+      await this.exitTrade(symbol, "FLATTEN");
+    }
+    if (pauseAfter) await this.pause();
+  }
+
+  stop() {
+    if (this.reconcileTimer) {
+      clearTimeout(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+    for (const strategy of this.strategies) {
+      strategy.stop();
+    }
+    this.openInterest.stop();
+    this.api.exchangeInfo.stop();
+    this.userStream.stop();
+  }
+}
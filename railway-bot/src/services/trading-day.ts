@@ -0,0 +1,55 @@
+// Trading days run from local midnight to local midnight in the configured
+// timezone (an IANA name such as "UTC" or "Africa/Johannesburg").
+
+function zonedParts(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Local time minus UTC at the given instant
+function offsetMs(timestamp: number, timeZone: string): number {
+  const p = zonedParts(timestamp, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+// The trading day containing `timestamp`, as YYYY-MM-DD
+export function tradingDayOf(timestamp: number, timeZone: string): string {
+  const p = zonedParts(timestamp, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+// Instant the trading day after the one containing `timestamp` begins
+export function nextTradingDayStart(timestamp: number, timeZone: string): number {
+  const p = zonedParts(timestamp, timeZone);
+  const localMidnight = Date.UTC(p.year, p.month - 1, p.day + 1);
+  // Use the offset at the boundary itself so a DST change during the day is handled
+  const guess = localMidnight - offsetMs(timestamp, timeZone);
+  return localMidnight - offsetMs(guess, timeZone);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,290 @@
+import WebSocket from "ws";
+import { EventEmitter } from "events";
+import type { BinanceAPI } from "./binance-api";
+import { logger } from "./logger";
+
+// ORDER_TRADE_UPDATE: a change to one of the account's orders
+export interface OrderUpdate {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  side: "BUY" | "SELL";
+  // MARKET, LIMIT, STOP_MARKET, TAKE_PROFIT_MARKET, LIQUIDATION, ...
+  orderType: string;
+  // NEW, TRADE, CANCELED, EXPIRED, CALCULATED (liquidation), AMENDMENT
+  executionType: string;
+  status: string;
+  avgPrice: number;
+  stopPrice: number;
+  cumulativeQty: number;
+  // The execution this update reports (executionType TRADE)
+  lastFilledQty: number;
+  lastFilledPrice: number;
+  commission: number;
+  commissionAsset: string;
+  realizedPnl: number;
+  maker: boolean;
+  reduceOnly: boolean;
+  tradeId: number;
+  time: number;
+}
+
+export interface BalanceUpdate {
+  asset: string;
+  walletBalance: number;
+  crossWalletBalance: number;
+  balanceChange: number;
+}
+
+export interface PositionUpdate {
+  symbol: string;
+  positionAmt: number;
+  entryPrice: number;
+  unrealizedPnl: number;
+  marginType: string;
+  positionSide: string;
+}
+
+// ACCOUNT_UPDATE: balances and positions after an order fill, funding fee,
+// transfer and so on (`reason`)
+export interface AccountUpdate {
+  reason: string;
+  balances: BalanceUpdate[];
+  positions: PositionUpdate[];
+  time: number;
+}
+
+export interface MarginCallPosition {
+  symbol: string;
+  positionSide: string;
+  positionAmt: number;
+  marginType: string;
+  markPrice: number;
+  unrealizedPnl: number;
+  maintenanceMargin: number;
+}
+
+// MARGIN_CALL: positions close to liquidation
+export interface MarginCall {
+  crossWalletBalance: number;
+  positions: MarginCallPosition[];
+  time: number;
+}
+
+// Listen keys expire 60 minutes after the last keepalive
+const KEEPALIVE_INTERVAL_MS = 30 * 60 * 1000;
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+// Binance's user data stream: the account's order updates, balance and
+// position changes and margin calls. Owns the listen key: creates it, keeps it
+// alive every 30 minutes and starts over with a new key when it expires or the
+// connection drops.
+export class BinanceUserStream extends EventEmitter {
+  private api: BinanceAPI;
+  private ws: WebSocket | null = null;
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private running = false;
+  private isConnected = false;
+
+  constructor(api: BinanceAPI) {
+    super();
+    this.api = api;
+  }
+
+  async start() {
+    if (this.running) return;
+    this.running = true;
+    await this.connect();
+  }
+
+  async stop() {
+    if (!this.running) return;
+    this.running = false;
+    this.clearTimers();
+    if (this.ws) {
+      // Aborting a socket that is still connecting emits "error"; with the
+      // handlers gone it needs a listener or it throws
+      this.ws.removeAllListeners();
+      this.ws.on("error", () => {});
+      this.ws.terminate();
+      this.ws = null;
+    }
+    this.isConnected = false;
+    try {
+      await this.api.closeListenKey();
+    } catch (err) {
+      logger.warn("Could not close user data stream listen key", String(err));
+    }
+  }
+
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  private async connect() {
+    let listenKey: string;
+    try {
+      listenKey = await this.api.createListenKey();
+    } catch (err) {
+      logger.error("Could not create user data stream listen key", String(err));
+      this.scheduleReconnect();
+      return;
+    }
+    if (!this.running) return; // Stopped while the key was being created
+
+    const ws = new WebSocket(`wss://fstream.binance.com/ws/${listenKey}`);
+    this.ws = ws;
+
+    ws.on("open", () => {
+      this.isConnected = true;
+      this.reconnectAttempts = 0;
+      logger.info("User data stream connected");
+      this.startKeepalive();
+      this.emit("connected");
+    });
+
+    ws.on("message", (data: Buffer) => {
+      try {
+        this.handleMessage(JSON.parse(data.toString()));
+      } catch (err) {
+        logger.error("Failed to parse user data stream message", String(err));
+      }
+    });
+
+    ws.on("error", (error) => {
+      logger.error("User data stream error", String(error));
+    });
+
+    ws.on("close", () => {
+      this.isConnected = false;
+      this.clearTimers();
+      if (!this.running) return;
+      logger.warn("User data stream disconnected");
+      this.emit("disconnected");
+      this.scheduleReconnect();
+    });
+  }
+
+  // Drops the connection; the close handler reconnects with a new key. A
+  // socket already closing reconnects on its own.
+  private restart(reason: string) {
+    logger.warn(`Restarting user data stream: ${reason}`);
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.close();
+    } else if (this.ws?.readyState === WebSocket.CONNECTING) {
+      this.ws.terminate();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (!this.running || this.reconnectTimer) return;
+    this.reconnectAttempts++;
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, RECONNECT_DELAY_MS * Math.pow(2, this.reconnectAttempts - 1));
+    logger.info(`Reconnecting user data stream in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startKeepalive() {
+    this.keepaliveTimer = setInterval(async () => {
+      try {
+        await this.api.keepAliveListenKey();
+      } catch (err) {
+        this.restart(`keepalive failed (${String(err)})`);
+      }
+    }, KEEPALIVE_INTERVAL_MS);
+  }
+
+  private clearTimers() {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private handleMessage(event: any) {
+    switch (event.e) {
+      case "ORDER_TRADE_UPDATE": {
+        const o = event.o;
+        const update: OrderUpdate = {
+          symbol: o.s,
+          orderId: o.i,
+          clientOrderId: o.c,
+          side: o.S,
+          orderType: o.o,
+          executionType: o.x,
+          status: o.X,
+          avgPrice: parseFloat(o.ap),
+          stopPrice: parseFloat(o.sp),
+          cumulativeQty: parseFloat(o.z),
+          lastFilledQty: parseFloat(o.l),
+          lastFilledPrice: parseFloat(o.L),
+          commission: parseFloat(o.n ?? "0"),
+          commissionAsset: o.N ?? "USDT",
+          realizedPnl: parseFloat(o.rp),
+          maker: o.m,
+          reduceOnly: o.R,
+          tradeId: o.t,
+          time: o.T,
+        };
+        this.emit("order", update);
+        break;
+      }
+
+      case "ACCOUNT_UPDATE": {
+        const a = event.a;
+        const update: AccountUpdate = {
+          reason: a.m,
+          balances: (a.B ?? []).map((b: any) => ({
+            asset: b.a,
+            walletBalance: parseFloat(b.wb),
+            crossWalletBalance: parseFloat(b.cw),
+            balanceChange: parseFloat(b.bc),
+          })),
+          positions: (a.P ?? []).map((p: any) => ({
+            symbol: p.s,
+            positionAmt: parseFloat(p.pa),
+            entryPrice: parseFloat(p.ep),
+            unrealizedPnl: parseFloat(p.up),
+            marginType: p.mt,
+            positionSide: p.ps,
+          })),
+          time: event.T,
+        };
+        this.emit("account", update);
+        break;
+      }
+
+      case "MARGIN_CALL": {
+        const call: MarginCall = {
+          crossWalletBalance: parseFloat(event.cw ?? "0"),
+          positions: (event.p ?? []).map((p: any) => ({
+            symbol: p.s,
+            positionSide: p.ps,
+            positionAmt: parseFloat(p.pa),
+            marginType: p.mt,
+            markPrice: parseFloat(p.mp),
+            unrealizedPnl: parseFloat(p.up),
+            maintenanceMargin: parseFloat(p.mm),
+          })),
+          time: event.E,
+        };
+        this.emit("marginCall", call);
+        break;
+      }
+
+      case "listenKeyExpired":
+        this.restart("listen key expired");
+        break;
+    }
+  }
+}
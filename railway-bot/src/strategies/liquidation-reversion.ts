@@ -1,190 +1,144 @@
-import { BinanceWebSocket } from "../services/binance-ws";
-import { BinanceAPI } from "../services/binance-api";
-import { logger } from "../services/logger";
-import { db } from "../db";
-import { trades, marketEvents, metrics, botStates, healthChecks } from "../db/schema";
-import { eq, desc, and } from "drizzle-orm";
-
-interface LiquidationSignal {
-  symbol: string;
-  side: "BUY" | "SELL";
-  usdValue: number;
-  timestamp: number;
-}
+import type { LiquidationData } from "../services/binance-ws";
+import { LiquidationAggregator, type LiquidationCascade } from "../services/liquidation-aggregator";
+import type { CandleInterval } from "../services/candle-builder";
+import type {
+  Config,
+  EvaluationHandler,
+  MarketData,
+  SignalCriteria,
+  SignalEvaluation,
+  Strategy,
+  TradeVariant,
+} from "./types";
+import { resolveChecks, type CriterionCheck } from "./scoring";
 
-interface Config {
-  symbols: string[];
-  leverage: number;
-  riskPerTradePct: number;
-  dailyMaxLossPct: number;
-  maxTradesPerDay: number;
-  maxConsecutiveLosses: number;
-  liqWindowSeconds: number;
-  minLiqUsd: Record<string, number>;
-  volumeMult: number;
-  maxSpreadBps: Record<string, number>;
-  symbolCooldownSeconds: number;
-  tpPct: number;
-  slPct: number;
-  timeStopSeconds: number;
-  entryFillTimeoutMs: number;
-}
+export type { Config } from "./types";
 
-export class LiquidationReversionStrategy {
-  private ws: BinanceWebSocket;
-  private api: BinanceAPI;
-  private config: Config;
-  private isPaused = false;
-  private isLive = false;
-  
-  // State tracking
-  private recentLiquidations: Map<string, LiquidationSignal[]> = new Map();
-  private recentVolumes: Map<string, number[]> = new Map();
-  private symbolCooldowns: Map<string, number> = new Map();
-  private openTrade: { symbol: string; entryPrice: number; side: "LONG" | "SHORT"; entryTime: number; tradeId: number } | null = null;
-  
-  // Daily metrics
-  private todayPnl = 0;
-  private todayTradeCount = 0;
-  private consecutiveLosses = 0;
-  private equity = 1400; // Starting equity in USDT
-  
-  constructor(ws: BinanceWebSocket, api: BinanceAPI, config: Config, isLive = false) {
-    this.ws = ws;
-    this.api = api;
-    this.config = config;
-    this.isLive = isLive;
-    
-    // Initialize tracking for each symbol
-    for (const symbol of config.symbols) {
-      this.recentLiquidations.set(symbol, []);
-      this.recentVolumes.set(symbol, []);
-    }
+export const LIQUIDATION_REVERSION_ID = "liquidation-reversion";
+
+// Bar size used to judge whether a cascade is exhausting
+const EXHAUSTION_INTERVAL: CandleInterval = "5s";
+
+const SETUP_PREFIX: Record<TradeVariant, string> = {
+  REVERSION: "liq",
+  MOMENTUM: "mom",
+};
+
+export class LiquidationReversionStrategy implements Strategy {
+  readonly id = LIQUIDATION_REVERSION_ID;
+  private _config: Config;
+  private market: MarketData | null = null;
+  private onEvaluation: EvaluationHandler | null = null;
+  private liquidations: LiquidationAggregator;
+
+  constructor(config: Config) {
+    this._config = config;
+    this.liquidations = new LiquidationAggregator(config.liqWindowSeconds);
   }
-  
-  async start() {
-    logger.info("Starting Liquidation Reversion Strategy");
-    logger.info(`Mode: ${this.isLive ? "LIVE TRADING" : "PAPER TRADING (no real orders)"}`);
-    
-    // Update bot state
-    await this.updateBotState("RUNNING");
-    await this.updateHealth(true, true, true);
-    
-    // In paper mode, skip API calls that require trading permissions
-    if (this.isLive) {
-      // Set leverage on all symbols
-      for (const symbol of this.config.symbols) {
-        try {
-          await this.api.setLeverage(symbol, this.config.leverage);
-        } catch (err) {
-          logger.warn(`Failed to set leverage for ${symbol}`, String(err));
-        }
-      }
-      
-      // Get initial equity from account
-      try {
-        this.equity = await this.api.getUsdtBalance();
-        logger.info(`Starting equity: $${this.equity.toFixed(2)}`);
-      } catch (err) {
-        logger.warn("Could not fetch initial balance, using default");
-      }
-    } else {
-      // Paper mode - use default equity
-      logger.info(`[PAPER] Using simulated equity: $${this.equity.toFixed(2)}`);
-    }
-    
-    // Listen for liquidation events
-    this.ws.on("liquidation", (liq: LiquidationSignal) => {
-      this.onLiquidation(liq);
-    });
-    
-    // Listen for trade updates for volume tracking
-    this.ws.on("trade", (trade: any) => {
-      this.onTrade(trade);
+
+  get config(): Config {
+    return this._config;
+  }
+
+  start(market: MarketData, onEvaluation: EvaluationHandler) {
+    this.market = market;
+    this.onEvaluation = onEvaluation;
+
+    // Individual force orders are grouped into cascades before evaluation
+    this.liquidations.on("cascade", (cascade: LiquidationCascade) => {
+      this.onCascade(cascade);
     });
-    
-    // Start position monitoring loop
-    this.startPositionMonitor();
-    
-    // Start heartbeat
-    this.startHeartbeat();
-    
-    logger.info("Strategy started successfully");
   }
-  
-  private async onLiquidation(liq: LiquidationSignal) {
-    if (this.isPaused) return;
-    if (this.openTrade) return; // Already in a trade
-    
-    const symbol = liq.symbol;
-    if (!this.config.symbols.includes(symbol)) return;
-    
-    // Check cooldown first (don't log cooldown events)
-    const cooldownUntil = this.symbolCooldowns.get(symbol) || 0;
-    if (Date.now() < cooldownUntil) {
-      return; // Skip cooldown events entirely
-    }
-    
+
+  stop() {
+    this.liquidations.removeAllListeners("cascade");
+    this.liquidations.clear();
+  }
+
+  onLiquidation(liq: LiquidationData) {
+    this.liquidations.add(liq);
+  }
+
+  applyConfig(config: Config) {
+    this._config = config;
+    this.liquidations.setWindow(config.liqWindowSeconds);
+  }
+
+  private onCascade(cascade: LiquidationCascade) {
+    const market = this.market;
+    if (!market || !this.onEvaluation) return;
+
+    const config = this._config;
+    const symbol = cascade.symbol;
+    const settings = config.symbolSettings[symbol];
+    if (!config.symbols.includes(symbol) || !settings?.enabled) return;
+
     // ============================================
     // CALCULATE ALL CRITERIA UPFRONT
     // ============================================
-    
+
     // 1. Spread check
-    const spreadBps = this.ws.getSpreadBps(symbol);
-    const maxSpread = this.config.maxSpreadBps[symbol] || 4;
+    const spreadBps = market.getSpreadBps(symbol);
+    const maxSpread = settings.maxSpreadBps;
     const spreadOk = spreadBps <= maxSpread;
-    
-    // 2. Volume multiplier check
-    const avgVolume = this.getAverageVolume(symbol);
-    const recentVolume = this.getRecentVolume(symbol, 60);
-    const volumeMult = avgVolume > 0 ? recentVolume / avgVolume : 0;
-    const volumeOk = volumeMult >= this.config.volumeMult;
-    
-    // 3. Liquidation size check
-    const minLiq = this.config.minLiqUsd[symbol] || 2000000;
-    const liqSizeOk = liq.usdValue >= minLiq;
-    
+
+    // 2. Volume multiplier check - notional traded over the last liqWindowSeconds
+    // against the average of the preceding volumeLookback windows of the same length
+    const windowMs = config.liqWindowSeconds * 1000;
+    const now = Date.now();
+    const recentVolumeUsd = market.candles.getQuoteVolume(symbol, now - windowMs, now);
+    const baselineVolumeUsd = market.candles.getVolumeBaseline(symbol, now - windowMs, windowMs, config.volumeLookback);
+    const volumeMult = baselineVolumeUsd > 0 ? recentVolumeUsd / baselineVolumeUsd : 0;
+    const volumeOk = volumeMult >= config.volumeMult;
+
+    // 3. Liquidation size check - total USD liquidated across the cascade
+    const minLiq = settings.minLiqUsd;
+    const liqSizeOk = cascade.totalUsd >= minLiq;
+
     // 4. Price momentum (delta) check - measure price change in last minute
-    const priceDelta = this.ws.getPriceDelta(symbol, 60);
+    const priceDelta = market.getPriceDelta(symbol, 60);
     const momentumOk = Math.abs(priceDelta) < 0.5; // Momentum slowing if delta < 0.5%
-    
-    // 5. Exhaustion candles check - count candles that failed to extend
-    const exhaustionCandles = this.ws.getExhaustionCandles(symbol);
-    const exhaustionOk = exhaustionCandles >= 1; // At least 1 exhaustion candle
-    
-    // ============================================
-    // CHECK DAILY LIMITS (separate from signal quality)
-    // ============================================
-    const dailyLimitOk = this.todayTradeCount < this.config.maxTradesPerDay;
-    const consecutiveLossOk = this.consecutiveLosses < this.config.maxConsecutiveLosses;
-    const dailyLossPct = Math.abs(Math.min(0, this.todayPnl)) / this.equity;
-    const dailyLossOk = dailyLossPct < this.config.dailyMaxLossPct;
-    
-    // ============================================
-    // DETERMINE OVERALL PASS/FAIL
-    // ============================================
-    const signalQualityPassed = liqSizeOk && volumeOk && spreadOk && momentumOk && exhaustionOk;
-    const riskLimitsPassed = dailyLimitOk && consecutiveLossOk && dailyLossOk;
-    const allPassed = signalQualityPassed && riskLimitsPassed;
-    
-    // Build rejection reason listing all failures
-    const failures: string[] = [];
-    if (!liqSizeOk) failures.push(`Liq size $${(liq.usdValue/1000).toFixed(0)}K < $${(minLiq/1000000).toFixed(1)}M`);
-    if (!volumeOk) failures.push(`Volume ${volumeMult.toFixed(2)}x < ${this.config.volumeMult}x`);
-    if (!spreadOk) failures.push(`Spread ${spreadBps.toFixed(1)}bps > ${maxSpread}bps`);
-    if (!momentumOk) failures.push(`Momentum ${priceDelta.toFixed(2)}% still strong`);
-    if (!exhaustionOk) failures.push(`No exhaustion candles (${exhaustionCandles})`);
-    if (!dailyLimitOk) failures.push("Daily trade limit");
-    if (!consecutiveLossOk) failures.push("Consecutive losses limit");
-    if (!dailyLossOk) failures.push("Daily loss limit");
-    
-    const rejectionReason = failures.length > 0 ? failures.join("; ") : null;
-    
-    // ============================================
-    // LOG THE EVENT WITH ALL CRITERIA
-    // ============================================
-    await this.logMarketEvent(symbol, liq, allPassed, rejectionReason, {
+
+    // 5. Exhaustion candles check - consecutive bars failing to extend the cascade
+    // Long liquidations (SELL force orders) push price down, short liquidations push it up
+    const cascadeDirection = cascade.side === "SELL" ? "DOWN" : "UP";
+    const exhaustionCandles = market.candles.countExhaustionCandles(symbol, EXHAUSTION_INTERVAL, cascadeDirection);
+    const exhaustionOk = exhaustionCandles >= config.exhaustionCandles;
+
+    // 6. Breakout check (momentum variant) - price pushed through the cascade extreme
+    const currentPrice = market.getPrice(symbol);
+    const breakoutOk = currentPrice !== undefined && (cascadeDirection === "DOWN"
+      ? currentPrice < cascade.extremePrice
+      : currentPrice > cascade.extremePrice);
+
+    // 7. Order book depth - enough resting liquidity on both sides near mid
+    const depth = market.getBookDepth(symbol, config.depthWithinBps);
+    const depthOk = depth !== null && Math.min(depth.bidUsd, depth.askUsd) >= config.minDepthUsd;
+
+    // 8. Book imbalance - bids outweigh asks for a long (and vice versa), checked per variant
+    const reversionSide = cascade.side === "BUY" ? "SHORT" : "LONG";
+    const momentumSide = cascadeDirection === "DOWN" ? "SHORT" : "LONG";
+    const imbalanceOk = (side: "LONG" | "SHORT") =>
+      depth !== null && (side === "LONG" ? depth.imbalance : -depth.imbalance) >= config.minBookImbalance;
+
+    // 9. Funding - extreme funding against the trade means the crowded side
+    // is still paying to stay in, so checked per variant like imbalance
+    const funding = market.getFunding(symbol);
+    const fundingOk = (side: "LONG" | "SHORT") =>
+      funding !== undefined && (side === "LONG" ? funding.fundingRate : -funding.fundingRate) <= config.maxFundingRate;
+
+    // 10. Open interest drop since the cascade began - positions were actually flushed
+    const oiChangePct = market.getOpenInterestChange(symbol, cascade.startTime);
+    const oiDropOk = oiChangePct !== null && oiChangePct <= -config.minOiDropPct;
+
+    // 11. Funding settlement - stay out of the minutes before it
+    const fundingSecondsLeft = funding ? Math.max(0, Math.floor((funding.nextFundingTime - now) / 1000)) : null;
+    const fundingTimeOk = fundingSecondsLeft !== null && fundingSecondsLeft >= config.fundingBufferSeconds;
+
+    const criteria: SignalCriteria = {
       volumeMult,
+      recentVolumeUsd,
+      baselineVolumeUsd,
       spreadBps,
       priceDelta,
       exhaustionCandles,
@@ -193,372 +147,146 @@ export class LiquidationReversionStrategy {
       spreadOk,
       momentumOk,
       exhaustionOk,
-    });
-    
-    // Handle risk limit pausing
-    if (!riskLimitsPassed) {
-      if (!consecutiveLossOk || !dailyLossOk) {
-        await this.updateBotState("PAUSED_RISK_LIMIT");
-        this.isPaused = true;
-      }
-      return;
-    }
-    
-    // If signal quality failed, don't trade
-    if (!signalQualityPassed) {
-      return;
-    }
-    
-    // Signal passed! Execute trade
-    logger.info(`SIGNAL PASSED: ${symbol} - Liq: $${(liq.usdValue / 1000000).toFixed(2)}M, Vol: ${volumeMult.toFixed(2)}x, Spread: ${spreadBps.toFixed(1)}bps`);
-    
-    // Trade in opposite direction of liquidation
-    const tradeSide = liq.side === "BUY" ? "SHORT" : "LONG";
-    await this.enterTrade(symbol, tradeSide);
-  }
-  
-  private async enterTrade(symbol: string, side: "LONG" | "SHORT") {
-    const price = this.ws.getPrice(symbol);
-    if (!price) {
-      logger.error(`No price available for ${symbol}`);
-      return;
+      breakoutOk,
+      bookImbalance: depth?.imbalance ?? null,
+      depthBidUsd: depth?.bidUsd ?? null,
+      depthAskUsd: depth?.askUsd ?? null,
+      imbalanceOk: imbalanceOk(reversionSide),
+      depthOk,
+      fundingRate: funding?.fundingRate ?? null,
+      fundingSecondsLeft,
+      oiChangePct,
+      fundingOk: fundingOk(reversionSide),
+      oiDropOk,
+      fundingTimeOk,
+    };
+
+    // Checks shared by both variants, each with the reason shown when it fails
+    const sharedChecks: CriterionCheck[] = [
+      { key: "liq_size", ok: liqSizeOk, failure: `Cascade $${(cascade.totalUsd/1000).toFixed(0)}K (${cascade.count} liqs) < $${(minLiq/1000000).toFixed(1)}M` },
+      { key: "volume", ok: volumeOk, failure: `Volume ${volumeMult.toFixed(2)}x < ${config.volumeMult}x ($${(recentVolumeUsd / 1000000).toFixed(2)}M vs $${(baselineVolumeUsd / 1000000).toFixed(2)}M baseline)` },
+      { key: "spread", ok: spreadOk, failure: `Spread ${spreadBps.toFixed(1)}bps > ${maxSpread}bps` },
+    ];
+    // Book criteria are always logged but only gate entries behind the flag
+    if (config.enableBookFilter) {
+      sharedChecks.push({
+        key: "depth",
+        ok: depthOk,
+        failure: depth
+          ? `Depth $${(Math.min(depth.bidUsd, depth.askUsd) / 1000).toFixed(0)}K < $${(config.minDepthUsd / 1000).toFixed(0)}K within ${config.depthWithinBps}bps`
+          : "Order book not synced",
+      });
     }
-    
-    // Calculate position size
-    const riskAmount = this.equity * this.config.riskPerTradePct;
-    const slDistance = price * this.config.slPct;
-    const quantity = riskAmount / slDistance;
-    
-    const orderSide = side === "LONG" ? "BUY" : "SELL";
-    
-    try {
-      const startTime = Date.now();
-      let avgPrice = price;
-      let executedQty = quantity;
-      let slippage = 0;
-      
-      // In paper mode, simulate the trade instead of executing
-      if (!this.isLive) {
-        // Simulate small slippage (0.01-0.03%)
-        slippage = 0.01 + Math.random() * 0.02;
-        avgPrice = side === "LONG" 
-          ? price * (1 + slippage / 100)
-          : price * (1 - slippage / 100);
-        logger.info(`[PAPER] Simulated ${side} ${symbol} @ ${avgPrice.toFixed(2)} (simulated slippage: ${slippage.toFixed(3)}%)`);
-      } else {
-        // Live mode - execute real order
-        const order = await this.api.marketOrder(symbol, orderSide, quantity);
-        avgPrice = order.avgPrice;
-        executedQty = order.executedQty;
-        slippage = Math.abs(order.avgPrice - price) / price * 100;
-      }
-      
-      const executionTime = Date.now() - startTime;
-      logger.info(`Trade opened: ${side} ${symbol} @ ${avgPrice.toFixed(2)} (slippage: ${slippage.toFixed(3)}%, exec: ${executionTime}ms)`);
-      
-      // Record trade in database
-      const [newTrade] = await db.insert(trades).values({
-        symbol,
-        side,
-        entryPrice: avgPrice,
-        quantity: executedQty,
-        isOpen: true,
-        setupId: `liq_${Date.now()}`,
-        slippageEst: slippage,
-      }).returning();
-      
-      this.openTrade = {
-        symbol,
-        entryPrice: avgPrice,
-        side,
-        entryTime: Date.now(),
-        tradeId: newTrade.id,
-      };
-      
-      // Set cooldown
-      this.symbolCooldowns.set(symbol, Date.now() + this.config.symbolCooldownSeconds * 1000);
-      
-      // Update metrics
-      this.todayTradeCount++;
-      await this.updateMetrics();
-      
-    } catch (err) {
-      logger.error(`Failed to enter trade: ${symbol} ${side}`, String(err));
+    // Positioning criteria follow the same rule behind their own flag
+    if (config.enablePositioningFilter) {
+      sharedChecks.push({
+        key: "funding_time",
+        ok: fundingTimeOk,
+        failure: fundingSecondsLeft !== null
+          ? `Funding settles in ${fundingSecondsLeft}s < ${config.fundingBufferSeconds}s`
+          : "No funding data",
+      });
     }
-  }
-  
-  private startPositionMonitor() {
-    setInterval(async () => {
-      if (!this.openTrade) return;
-      
-      const { symbol, entryPrice, side, entryTime, tradeId } = this.openTrade;
-      const currentPrice = this.ws.getPrice(symbol);
-      if (!currentPrice) return;
-      
-      const pnlPct = side === "LONG"
-        ? (currentPrice - entryPrice) / entryPrice
-        : (entryPrice - currentPrice) / entryPrice;
-      
-      const timeInTrade = (Date.now() - entryTime) / 1000;
-      
-      // Check exit conditions
-      let exitReason: string | null = null;
-      
-      if (pnlPct >= this.config.tpPct) {
-        exitReason = "TP";
-      } else if (pnlPct <= -this.config.slPct) {
-        exitReason = "SL";
-      } else if (timeInTrade >= this.config.timeStopSeconds) {
-        exitReason = "TIME_STOP";
-      }
-      
-      if (exitReason) {
-        await this.exitTrade(exitReason);
-      }
-    }, 100); // Check every 100ms for fast exits
-  }
-  
-  private async exitTrade(exitReason: string) {
-    if (!this.openTrade) return;
-    
-    const { symbol, entryPrice, side, entryTime, tradeId } = this.openTrade;
-    const orderSide = side === "LONG" ? "SELL" : "BUY";
-    
-    try {
-      const exitPrice = this.ws.getPrice(symbol) || entryPrice;
-      let quantity = 0;
-      
-      // In paper mode, simulate the exit
-      if (!this.isLive) {
-        // Use the quantity from when we entered
-        quantity = (this.equity * this.config.riskPerTradePct) / (entryPrice * this.config.slPct);
-        logger.info(`[PAPER] Simulated exit ${side} ${symbol} @ ${exitPrice.toFixed(2)}`);
-      } else {
-        // Live mode - execute real order
-        const positions = await this.api.getPositions();
-        const pos = positions.find(p => p.symbol === symbol);
-        
-        if (pos) {
-          quantity = Math.abs(pos.positionAmt);
-          await this.api.marketOrder(symbol, orderSide, quantity);
-        }
+
+    // Side-dependent book and funding checks, skipped while their data is missing
+    const sideChecks = (side: "LONG" | "SHORT", sideCriteria: SignalCriteria): CriterionCheck[] => {
+      const checks: CriterionCheck[] = [];
+      if (config.enableBookFilter && depth) {
+        checks.push({ key: "imbalance", ok: sideCriteria.imbalanceOk, failure: `Book imbalance ${depth.imbalance.toFixed(2)} against ${side}` });
       }
-      
-      const pnlPct = side === "LONG"
-        ? (exitPrice - entryPrice) / entryPrice
-        : (entryPrice - exitPrice) / entryPrice;
-      
-      const pnlUsdt = entryPrice * quantity * pnlPct;
-      const duration = Math.floor((Date.now() - entryTime) / 1000);
-      const fees = Math.abs(pnlUsdt) * 0.04;
-      
-      logger.info(`Trade closed: ${side} ${symbol} - PnL: $${pnlUsdt.toFixed(2)} (${(pnlPct * 100).toFixed(2)}%) - ${exitReason}`);
-      
-      // Update trade in database
-      await db.update(trades)
-        .set({
-          exitPrice,
-          pnlUsdt,
-          pnlPct,
-          duration,
-          fees,
-          exitReason,
-          exitTimestamp: new Date(),
-          isOpen: false,
-        })
-        .where(eq(trades.id, tradeId));
-      
-      // Update metrics
-      this.todayPnl += pnlUsdt;
-      if (pnlUsdt >= 0) {
-        this.consecutiveLosses = 0;
-      } else {
-        this.consecutiveLosses++;
+      if (config.enablePositioningFilter && funding) {
+        checks.push({ key: "funding", ok: sideCriteria.fundingOk, failure: `Funding ${(funding.fundingRate * 100).toFixed(4)}% against ${side}` });
       }
-      
-      await this.updateMetrics();
-      
-      this.openTrade = null;
-      
-    } catch (err) {
-      logger.error(`Failed to exit trade`, String(err));
-    }
-  }
-  
-  private onTrade(trade: any) {
-    const symbol = trade.symbol;
-    const volumes = this.recentVolumes.get(symbol) || [];
-    volumes.push(trade.quantity * trade.price);
-    
-    // Keep last 1000 trades
-    if (volumes.length > 1000) {
-      volumes.shift();
-    }
-    
-    this.recentVolumes.set(symbol, volumes);
-  }
-  
-  private getAverageVolume(symbol: string): number {
-    const volumes = this.recentVolumes.get(symbol) || [];
-    if (volumes.length === 0) return 0;
-    return volumes.reduce((a, b) => a + b, 0) / volumes.length;
-  }
-  
-  private getRecentVolume(symbol: string, seconds: number): number {
-    const volumes = this.recentVolumes.get(symbol) || [];
-    // Approximate: take last N samples
-    const samples = Math.min(volumes.length, seconds * 10);
-    const recent = volumes.slice(-samples);
-    return recent.reduce((a, b) => a + b, 0) / Math.max(1, samples);
-  }
-  
-  private async logMarketEvent(
-    symbol: string,
-    liq: LiquidationSignal,
-    passed: boolean,
-    rejectionReason: string | null,
-    criteria: {
-      volumeMult: number;
-      spreadBps: number;
-      priceDelta: number;
-      exhaustionCandles: number;
-      liqSizeOk: boolean;
-      volumeOk: boolean;
-      spreadOk: boolean;
-      momentumOk: boolean;
-      exhaustionOk: boolean;
-    }
-  ) {
-    await db.insert(marketEvents).values({
-      symbol,
-      liquidationUsd: liq.usdValue,
-      liquidationSide: liq.side === "BUY" ? "LONG" : "SHORT",
-      volumeMult: criteria.volumeMult,
-      spreadBps: criteria.spreadBps,
-      priceDelta: criteria.priceDelta,
-      exhaustionCandles: criteria.exhaustionCandles,
-      liqSizeOk: criteria.liqSizeOk,
-      volumeOk: criteria.volumeOk,
-      spreadOk: criteria.spreadOk,
-      momentumOk: criteria.momentumOk,
-      exhaustionOk: criteria.exhaustionOk,
-      passed,
-      rejectionReason,
-    });
-  }
-  
-  private async updateBotState(status: string) {
-    const [existing] = await db.select().from(botStates).orderBy(desc(botStates.id)).limit(1);
-    
-    if (existing) {
-      await db.update(botStates).set({
-        status,
-        lastHeartbeat: new Date(),
-        tradingMode: this.isLive ? "live" : "paper",
-      }).where(eq(botStates.id, existing.id));
-    } else {
-      await db.insert(botStates).values({
-        status,
-        tradingMode: this.isLive ? "live" : "paper",
+      return checks;
+    };
+
+    const summary = `Cascade: $${(cascade.totalUsd / 1000000).toFixed(2)}M over ${cascade.count} liqs (${(cascade.durationMs / 1000).toFixed(1)}s), Vol: ${volumeMult.toFixed(2)}x, Spread: ${spreadBps.toFixed(1)}bps`;
+
+    // Reversion: fade the cascade once it has exhausted
+    const reversionChecks: CriterionCheck[] = [
+      ...sharedChecks,
+      { key: "momentum", ok: momentumOk, failure: `Momentum ${priceDelta.toFixed(2)}% still strong` },
+      { key: "exhaustion", ok: exhaustionOk, failure: `Exhaustion candles ${exhaustionCandles} < ${config.exhaustionCandles}` },
+      ...sideChecks(reversionSide, criteria),
+    ];
+    if (config.enablePositioningFilter) {
+      reversionChecks.push({
+        key: "oi_drop",
+        ok: oiDropOk,
+        failure: oiChangePct !== null
+          ? `OI change ${(oiChangePct * 100).toFixed(2)}% > -${(config.minOiDropPct * 100).toFixed(2)}%`
+          : "No open interest history",
       });
     }
-  }
-  
-  private async updateHealth(api: boolean, ws: boolean, dbConn: boolean) {
-    const [existing] = await db.select().from(healthChecks).orderBy(desc(healthChecks.id)).limit(1);
-    
-    const healthStatus = api && ws && dbConn ? "healthy" : "degraded";
-    
-    if (existing) {
-      await db.update(healthChecks).set({
-        status: healthStatus,
-        apiConnected: api,
-        wsConnected: ws,
-        dbConnected: dbConn,
-        lastCheck: new Date(),
-      }).where(eq(healthChecks.id, existing.id));
-    } else {
-      await db.insert(healthChecks).values({
-        status: healthStatus,
-        apiConnected: api,
-        wsConnected: ws,
-        dbConnected: dbConn,
+    const reversion = resolveChecks(reversionChecks, config);
+
+    const evaluations: SignalEvaluation[] = [{
+      cascade,
+      variant: "REVERSION",
+      criteria,
+      failures: reversion.failures,
+      score: reversion.score,
+      contributions: reversion.contributions,
+      intent: reversion.failures.length === 0 ? {
+        symbol,
+        // Trade in opposite direction of liquidation
+        side: reversionSide,
+        variant: "REVERSION",
+        setupId: `${SETUP_PREFIX.REVERSION}_${Date.now()}`,
+        ...this.exitParams("REVERSION", symbol),
+        sizeScale: reversion.sizeScale,
+        summary,
+      } : null,
+    }];
+
+    // Momentum variant: the cascade failed to exhaust and price broke its extreme.
+    // It gets its own row so the two can be compared side by side.
+    if (config.enableMomentumVariant) {
+      const momentumCriteria = { ...criteria, imbalanceOk: imbalanceOk(momentumSide), fundingOk: fundingOk(momentumSide) };
+      const momentum = resolveChecks([
+        ...sharedChecks,
+        { key: "exhaustion", ok: !exhaustionOk, failure: `Cascade exhausted (${exhaustionCandles} candles)` },
+        { key: "breakout", ok: breakoutOk, failure: `No break of cascade extreme ${cascade.extremePrice.toFixed(2)}` },
+        ...sideChecks(momentumSide, momentumCriteria),
+      ], config);
+
+      evaluations.push({
+        cascade,
+        variant: "MOMENTUM",
+        criteria: momentumCriteria,
+        failures: momentum.failures,
+        score: momentum.score,
+        contributions: momentum.contributions,
+        intent: momentum.failures.length === 0 ? {
+          symbol,
+          // Trade with the cascade
+          side: momentumSide,
+          variant: "MOMENTUM",
+          setupId: `${SETUP_PREFIX.MOMENTUM}_${Date.now()}`,
+          ...this.exitParams("MOMENTUM", symbol),
+          sizeScale: momentum.sizeScale,
+          summary: `${summary}, broke ${cascade.extremePrice.toFixed(2)}`,
+        } : null,
       });
     }
+
+    this.onEvaluation(evaluations);
   }
-  
-  private async updateMetrics() {
-    const winCount = this.todayPnl > 0 ? 1 : 0;
-    const lossCount = this.todayPnl < 0 ? 1 : 0;
-    
-    const [existing] = await db.select().from(metrics).orderBy(desc(metrics.id)).limit(1);
-    
-    const metricsData = {
-      equityUsdt: this.equity + this.todayPnl,
-      equityZar: (this.equity + this.todayPnl) * 18.5,
-      todayPnlUsdt: this.todayPnl,
-      todayPnlPct: this.todayPnl / this.equity,
-      todayMaxDrawdownPct: Math.abs(Math.min(0, this.todayPnl)) / this.equity,
-      dailyLossRemaining: this.equity * this.config.dailyMaxLossPct - Math.abs(Math.min(0, this.todayPnl)),
-      tradesRemaining: this.config.maxTradesPerDay - this.todayTradeCount,
-      consecutiveLosses: this.consecutiveLosses,
-      todayTradeCount: this.todayTradeCount,
-      todayWinCount: winCount,
-      todayLossCount: lossCount,
-      winRate: this.todayTradeCount > 0 ? winCount / this.todayTradeCount : 0,
-      date: new Date(),
-    };
-    
-    if (existing) {
-      await db.update(metrics).set(metricsData).where(eq(metrics.id, existing.id));
-    } else {
-      await db.insert(metrics).values(metricsData);
-    }
-  }
-  
-  private startHeartbeat() {
-    setInterval(async () => {
-      await db.update(botStates)
-        .set({ lastHeartbeat: new Date() })
-        .where(eq(botStates.id, 1));
-      
-      await this.updateHealth(true, this.ws.connected, true);
-    }, 5000);
-  }
-  
-  async pause() {
-    this.isPaused = true;
-    await this.updateBotState("PAUSED_MANUAL");
-    logger.info("Strategy paused");
-  }
-  
-  async resume() {
-    this.isPaused = false;
-    await this.updateBotState("RUNNING");
-    logger.info("Strategy resumed");
-  }
-  
-  setLiveMode(isLive: boolean) {
-    const wasLive = this.isLive;
-    this.isLive = isLive;
-    if (wasLive !== isLive) {
-      logger.info(`Trading mode updated: ${isLive ? "LIVE" : "PAPER"}`);
-    }
-  }
-  
-  async flatten() {
-    logger.warn("EMERGENCY FLATTEN - Closing all positions");
-    
-    // In paper mode, just exit any simulated trade
-    if (this.isLive) {
-      await this.api.closeAllPositions();
-    } else {
-      logger.info("[PAPER] Simulated flatten - no real positions to close");
-    }
-    
-    if (this.openTrade) {
-      await this.exitTrade("FLATTEN");
+
+  // Symbol TP/SL overrides apply to the reversion exits; momentum keeps its own
+  private exitParams(variant: TradeVariant, symbol: string) {
+    if (variant === "MOMENTUM") {
+      return {
+        tpPct: this._config.momentumTpPct,
+        slPct: this._config.momentumSlPct,
+        timeStopSeconds: this._config.momentumTimeStopSeconds,
+      };
     }
-    await this.pause();
+    const settings = this._config.symbolSettings[symbol];
+    return {
+      tpPct: settings?.tpPct ?? this._config.tpPct,
+      slPct: settings?.slPct ?? this._config.slPct,
+      timeStopSeconds: this._config.timeStopSeconds,
+    };
   }
 }
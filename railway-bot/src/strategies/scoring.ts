@@ -0,0 +1,68 @@
+import type { Config, CriterionKey, CriterionWeight } from "./types";
+
+export const DEFAULT_CRITERION_WEIGHTS: Record<CriterionKey, CriterionWeight> = {
+  liq_size: { weight: 3, hard: false },
+  volume: { weight: 2, hard: false },
+  spread: { weight: 1, hard: true },
+  momentum: { weight: 1, hard: false },
+  exhaustion: { weight: 2, hard: false },
+  breakout: { weight: 2, hard: true },
+  depth: { weight: 1, hard: false },
+  imbalance: { weight: 1, hard: false },
+  funding: { weight: 1, hard: false },
+  funding_time: { weight: 1, hard: true },
+  oi_drop: { weight: 1, hard: false },
+};
+
+// One criterion as it applies to a variant, with the reason shown when it fails
+export interface CriterionCheck {
+  key: CriterionKey;
+  ok: boolean;
+  failure: string;
+}
+
+export interface CheckOutcome {
+  failures: string[];
+  // Weighted share of passed checks, 0..1
+  score: number;
+  // Each criterion's share of the score; failed criteria contribute 0
+  contributions: Partial<Record<CriterionKey, number>>;
+  // Applied to the position size; below 1 only when scoring scales size
+  sizeScale: number;
+}
+
+type ScoringConfig = Pick<Config, "scoringEnabled" | "scoreThreshold" | "scoreSizeScaling" | "criterionWeights">;
+
+// Gating mode rejects on any failed check. Scoring mode rejects on a failed
+// hard check or a score under scoreThreshold; soft failures only cost score.
+// The score is computed in both modes so the two can be compared.
+export function resolveChecks(checks: CriterionCheck[], config: ScoringConfig): CheckOutcome {
+  const weightOf = (key: CriterionKey) => config.criterionWeights[key] ?? DEFAULT_CRITERION_WEIGHTS[key];
+
+  const totalWeight = checks.reduce((sum, check) => sum + weightOf(check.key).weight, 0);
+  const contributions: Partial<Record<CriterionKey, number>> = {};
+  let score = 0;
+  for (const check of checks) {
+    const share = totalWeight > 0 && check.ok ? weightOf(check.key).weight / totalWeight : 0;
+    contributions[check.key] = share;
+    score += share;
+  }
+
+  const failed = checks.filter(check => !check.ok);
+  if (!config.scoringEnabled) {
+    return { failures: failed.map(check => check.failure), score, contributions, sizeScale: 1 };
+  }
+
+  const failures = failed.filter(check => weightOf(check.key).hard).map(check => check.failure);
+  if (score < config.scoreThreshold) {
+    const soft = failed.filter(check => !weightOf(check.key).hard).map(check => check.failure);
+    failures.push(`Score ${score.toFixed(2)} < ${config.scoreThreshold.toFixed(2)}${soft.length > 0 ? ` (${soft.join(", ")})` : ""}`);
+  }
+
+  return {
+    failures,
+    score,
+    contributions,
+    sizeScale: config.scoreSizeScaling ? score : 1,
+  };
+}
@@ -0,0 +1,214 @@
+import type { CandleBuilder } from "../services/candle-builder";
+import type { FundingData, LiquidationData } from "../services/binance-ws";
+import type { LiquidationCascade } from "../services/liquidation-aggregator";
+import type { BookDepth } from "../services/order-book";
+
+// Per-symbol thresholds from symbol_settings. Null overrides fall back to
+// symbolCooldownSeconds / tpPct / slPct.
+export interface SymbolSettings {
+  enabled: boolean;
+  minLiqUsd: number;
+  maxSpreadBps: number;
+  cooldownSeconds: number | null;
+  tpPct: number | null;
+  slPct: number | null;
+}
+
+export interface Config {
+  version: number;
+  symbols: string[];
+  leverage: number;
+  riskPerTradePct: number;
+  dailyMaxLossPct: number;
+  maxTradesPerDay: number;
+  maxConsecutiveLosses: number;
+  // A consecutive-loss pause lifts on its own after this long
+  pauseAfterLossesMinutes: number;
+  // IANA timezone whose local midnight starts a new trading day
+  tradingDayTimezone: string;
+  // How often and how position mismatches with the exchange are resolved
+  reconcilePolicy: ReconcilePolicy;
+  reconcileIntervalSeconds: number;
+  // Largest share of equity one trade may post as margin
+  maxMarginPerTradePct: number;
+  maxConcurrentPositions: number;
+  maxTotalNotionalPct: number;
+  maxTotalMarginPct: number;
+  maxCorrelatedPositions: number;
+  liqWindowSeconds: number;
+  volumeLookback: number;
+  volumeMult: number;
+  exhaustionCandles: number;
+  symbolCooldownSeconds: number;
+  // Order book criteria; they only reject signals when enableBookFilter is set
+  depthWithinBps: number;
+  minDepthUsd: number;
+  minBookImbalance: number;
+  enableBookFilter: boolean;
+  // Funding / open interest criteria; they only reject signals when enablePositioningFilter is set
+  maxFundingRate: number;
+  minOiDropPct: number;
+  fundingBufferSeconds: number;
+  enablePositioningFilter: boolean;
+  // Weighted scoring: when enabled, soft criteria only lower the score and the
+  // signal is rejected by a failed hard criterion or a score under scoreThreshold
+  scoringEnabled: boolean;
+  scoreThreshold: number;
+  scoreSizeScaling: boolean;
+  criterionWeights: Record<CriterionKey, CriterionWeight>;
+  symbolSettings: Record<string, SymbolSettings>;
+  tpPct: number;
+  slPct: number;
+  timeStopSeconds: number;
+  // How entries are worked; see EntryMode
+  entryMode: EntryMode;
+  entryOffsetBps: number;
+  entryFillTimeoutMs: number;
+  useMarketIfNotFilled: boolean;
+  // Commission rates for paper fills (and live fills whose trades cannot be fetched)
+  paperMakerFeePct: number;
+  paperTakerFeePct: number;
+  enableMomentumVariant: boolean;
+  momentumTpPct: number;
+  momentumSlPct: number;
+  momentumTimeStopSeconds: number;
+  breakevenEnabled: boolean;
+  breakevenTriggerPct: number;
+  trailMode: TrailMode;
+  trailTriggerPct: number;
+  trailPct: number;
+  trailAtrMult: number;
+  // Close tp1ClosePct of the position at tp1Pct; the rest runs to tpPct or the stop
+  scaleOutEnabled: boolean;
+  tp1Pct: number;
+  tp1ClosePct: number;
+  // Volatility stops: slPct = volStopMult x ATR or realized vol, clamped to
+  // [volSlFloorPct, volSlCapPct]; TP keeps the intent's TP/SL ratio
+  volMode: VolMode;
+  volStopMult: number;
+  volSlFloorPct: number;
+  volSlCapPct: number;
+}
+
+// OFF disables trailing; PCT trails by trailPct, ATR by trailAtrMult x ATR
+export type TrailMode = "OFF" | "PCT" | "ATR";
+
+// OFF uses the fixed TP/SL; ATR and REALIZED size the stop from 1m bar volatility
+export type VolMode = "OFF" | "ATR" | "REALIZED";
+
+// MARKET takes liquidity at once; IOC sends a limit crossing the touch by
+// entryOffsetBps; POST_ONLY rests entryOffsetBps behind the touch for
+// entryFillTimeoutMs. The unfilled part goes to market with useMarketIfNotFilled.
+export type EntryMode = "MARKET" | "IOC" | "POST_ONLY";
+
+// ALERT logs a mismatch and blocks the symbol; ADOPT takes the exchange's
+// side of it; CLOSE flattens whatever is out of sync
+export type ReconcilePolicy = "ALERT" | "ADOPT" | "CLOSE";
+
+// Criteria that can be weighted; keys match the dashboard's
+export type CriterionKey =
+  | "liq_size"
+  | "volume"
+  | "spread"
+  | "momentum"
+  | "exhaustion"
+  | "breakout"
+  | "depth"
+  | "imbalance"
+  | "funding"
+  | "funding_time"
+  | "oi_drop";
+
+export interface CriterionWeight {
+  weight: number;
+  // A failed hard criterion rejects the signal regardless of score
+  hard: boolean;
+}
+
+// REVERSION fades an exhausted cascade, MOMENTUM trades with one that fails to exhaust
+export type TradeVariant = "REVERSION" | "MOMENTUM";
+
+// Read-only market state shared by every strategy the runner hosts
+export interface MarketData {
+  getPrice(symbol: string): number | undefined;
+  getSpreadBps(symbol: string): number;
+  getPriceDelta(symbol: string, seconds: number): number;
+  // Null until the local order book is in sync
+  getBookDepth(symbol: string, withinBps: number): BookDepth | null;
+  getFunding(symbol: string): FundingData | undefined;
+  // Fractional open interest change since `since`, null without history that old
+  getOpenInterestChange(symbol: string, since: number): number | null;
+  readonly candles: CandleBuilder;
+}
+
+export interface TradeIntent {
+  symbol: string;
+  side: "LONG" | "SHORT";
+  variant: TradeVariant;
+  setupId: string;
+  tpPct: number;
+  slPct: number;
+  timeStopSeconds: number;
+  // Multiplier on the risk-based size (score when scoring scales size, else 1)
+  sizeScale: number;
+  // One-line description of why the signal fired, for the log
+  summary: string;
+}
+
+export interface SignalCriteria {
+  volumeMult: number;
+  recentVolumeUsd: number;
+  baselineVolumeUsd: number;
+  spreadBps: number;
+  priceDelta: number;
+  exhaustionCandles: number;
+  liqSizeOk: boolean;
+  volumeOk: boolean;
+  spreadOk: boolean;
+  momentumOk: boolean;
+  exhaustionOk: boolean;
+  breakoutOk: boolean;
+  // Signed bid/ask imbalance and resting USD within depthWithinBps of mid (null before the book syncs)
+  bookImbalance: number | null;
+  depthBidUsd: number | null;
+  depthAskUsd: number | null;
+  // Imbalance leans the way of the trade (per variant)
+  imbalanceOk: boolean;
+  depthOk: boolean;
+  // Positioning: funding rate, seconds to the next settlement and open interest change over the cascade
+  fundingRate: number | null;
+  fundingSecondsLeft: number | null;
+  oiChangePct: number | null;
+  // Funding is not extreme against the trade (per variant)
+  fundingOk: boolean;
+  oiDropOk: boolean;
+  fundingTimeOk: boolean;
+}
+
+// One market_events row: what the strategy saw and whether the signal itself
+// qualified. Risk limits are the runner's job and are added on top.
+export interface SignalEvaluation {
+  cascade: LiquidationCascade;
+  variant: TradeVariant;
+  criteria: SignalCriteria;
+  failures: string[];
+  // Weighted share of criteria passed and each criterion's part of it
+  score: number;
+  contributions: Partial<Record<CriterionKey, number>>;
+  // Present only when the signal qualified
+  intent: TradeIntent | null;
+}
+
+// Evaluations are reported in priority order; the runner enters at most one
+export type EvaluationHandler = (evaluations: SignalEvaluation[]) => void;
+
+// A strategy turns market data into trade intents. Sizing, risk limits,
+// order execution, persistence and heartbeats all live in the StrategyRunner.
+export interface Strategy {
+  readonly id: string;
+  readonly config: Config;
+  start(market: MarketData, onEvaluation: EvaluationHandler): void;
+  onLiquidation(liq: LiquidationData): void;
+  applyConfig(config: Config): void;
+  stop(): void;
+}
@@ -1,8 +1,31 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { timingSafeEqual } from "crypto";
 import { storage } from "./storage";
 import { z } from "zod";
 import * as XLSX from "xlsx";
+import { criterionWeightsSchema, EntryModeEnum, ReconcilePolicyEnum, symbolSettingSchema, TradingDayTimezoneEnum, TrailModeEnum, VolModeEnum } from "@shared/schema";
+
+// Overriding a risk-limit pause needs OPERATOR_TOKEN; without it set the override is disabled
+function isOperator(token: unknown): boolean {
+  const expected = process.env.OPERATOR_TOKEN;
+  if (!expected || typeof token !== "string") return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Query of the daily metrics history
+const dailyMetricsQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  limit: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// Query of the dashboard command history
+const commandsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+});
 
 // Validation schema for config form values
 const configFormSchema = z.object({
@@ -11,15 +34,75 @@ const configFormSchema = z.object({
   daily_max_loss_pct: z.number().min(0.005).max(0.05),
   max_trades_per_day: z.number().min(1).max(20),
   max_consecutive_losses: z.number().min(1).max(10),
+  pause_after_consecutive_losses_minutes: z.number().int().min(15).max(1440),
+  trading_day_timezone: TradingDayTimezoneEnum,
+  reconcile_policy: ReconcilePolicyEnum,
+  reconcile_interval_seconds: z.number().int().min(10).max(600),
+  max_concurrent_positions: z.number().int().min(1).max(5),
+  max_total_notional_pct: z.number().min(0.5).max(5),
+  max_total_margin_pct: z.number().min(0.1).max(1),
+  max_margin_per_trade_pct: z.number().min(0.05).max(1),
+  max_correlated_positions: z.number().int().min(1).max(3),
   tp_pct: z.number().min(0.0025).max(0.0045),
   sl_pct: z.number().min(0.0035).max(0.0050),
   time_stop_seconds: z.number().min(120).max(180),
+  entry_mode: EntryModeEnum,
+  entry_offset_bps: z.number().min(0).max(20),
+  entry_fill_timeout_ms: z.number().int().min(100).max(5000),
+  use_market_if_not_filled: z.boolean(),
+  paper_maker_fee_pct: z.number().min(0).max(0.002),
+  paper_taker_fee_pct: z.number().min(0).max(0.002),
   liq_window_seconds: z.number().min(30).max(120),
   volume_mult: z.number().min(1.5).max(5),
   exhaustion_candles: z.number().min(1).max(5),
   symbol_cooldown_seconds: z.number().min(60).max(600),
+  depth_within_bps: z.number().int().min(5).max(50),
+  min_depth_usd: z.number().min(0).max(20000000),
+  min_book_imbalance: z.number().min(-0.5).max(0.5),
+  max_funding_rate: z.number().min(0.0001).max(0.003),
+  min_oi_drop_pct: z.number().min(0).max(0.02),
+  funding_buffer_seconds: z.number().int().min(0).max(1800),
+  momentum_tp_pct: z.number().min(0.0025).max(0.01),
+  momentum_sl_pct: z.number().min(0.002).max(0.006),
+  momentum_time_stop_seconds: z.number().min(60).max(300),
+  breakeven_enabled: z.boolean(),
+  breakeven_trigger_pct: z.number().min(0.001).max(0.005),
+  trail_mode: TrailModeEnum,
+  trail_trigger_pct: z.number().min(0.001).max(0.006),
+  trail_pct: z.number().min(0.001).max(0.005),
+  trail_atr_mult: z.number().min(0.5).max(4),
+  scale_out_enabled: z.boolean(),
+  tp1_pct: z.number().min(0.001).max(0.004),
+  tp1_close_pct: z.number().min(0.25).max(0.75),
+  vol_mode: VolModeEnum,
+  vol_stop_mult: z.number().min(1).max(6),
+  vol_sl_floor_pct: z.number().min(0.001).max(0.005),
+  vol_sl_cap_pct: z.number().min(0.005).max(0.02),
   enable_sol: z.boolean(),
   enable_momentum_variant: z.boolean(),
+  enable_book_filter: z.boolean(),
+  enable_positioning_filter: z.boolean(),
+  scoring_enabled: z.boolean(),
+  score_threshold: z.number().min(0.3).max(1),
+  score_size_scaling: z.boolean(),
+  criterion_weights: criterionWeightsSchema,
+  symbol_settings: z.array(symbolSettingSchema)
+    .min(1)
+    .refine(settings => new Set(settings.map(s => s.symbol)).size === settings.length, {
+      message: "Each symbol may only appear once",
+    })
+    .refine(settings => settings.some(s => s.enabled), {
+      message: "At least one symbol must be enabled",
+    }),
+}).refine(values => !values.scale_out_enabled || values.tp1_pct < values.tp_pct, {
+  message: "TP1 must be below the final take profit",
+  path: ["tp1_pct"],
+}).refine(values => values.vol_sl_floor_pct < values.vol_sl_cap_pct, {
+  message: "Volatility stop floor must be below the cap",
+  path: ["vol_sl_floor_pct"],
+}).refine(values => Object.values(values.criterion_weights).some(w => w.weight > 0), {
+  message: "At least one criterion needs a weight",
+  path: ["criterion_weights"],
 });
 
 export async function registerRoutes(
@@ -50,17 +133,17 @@ export async function registerRoutes(
   // Overview endpoint (combined data for dashboard)
   app.get("/api/overview", async (req, res) => {
     try {
-      const [botState, metrics, openPosition, checklist] = await Promise.all([
+      const [botState, metrics, openPositions, checklist] = await Promise.all([
         storage.getBotState(),
         storage.getMetrics(),
-        storage.getOpenPosition(),
+        storage.getOpenPositions(),
         storage.getChecklist(),
       ]);
       
       res.json({
         botState,
         metrics,
-        openPosition,
+        openPositions,
         checklist,
       });
     } catch (error) {
@@ -78,14 +161,30 @@ export async function registerRoutes(
     }
   });
 
+  // Daily metrics history, one row per trading day
+  app.get("/api/metrics/daily", async (req, res) => {
+    try {
+      const parseResult = dailyMetricsQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "from and to must be YYYY-MM-DD and limit a whole number from 1 to 365" });
+      }
+      const history = await storage.getDailyMetrics(parseResult.data);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get daily metrics" });
+    }
+  });
+
   // Trades endpoint
   app.get("/api/trades", async (req, res) => {
     try {
-      const { symbol, side, exitReason, page, pageSize } = req.query;
+      const { symbol, side, exitReason, variant, strategy, page, pageSize } = req.query;
       const result = await storage.getTrades({
         symbol: symbol as string | undefined,
         side: side as string | undefined,
         exitReason: exitReason as string | undefined,
+        variant: variant as string | undefined,
+        strategyId: strategy as string | undefined,
         page: page ? parseInt(page as string) : undefined,
         pageSize: pageSize ? parseInt(pageSize as string) : undefined,
       });
@@ -95,13 +194,52 @@ export async function registerRoutes(
     }
   });
 
+  // Per-variant performance (reversion vs momentum)
+  app.get("/api/trades/summary", async (req, res) => {
+    try {
+      const summary = await storage.getVariantSummary();
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get trade summary" });
+    }
+  });
+
+  // Entry and exit fills of one trade
+  app.get("/api/trades/:id/fills", async (req, res) => {
+    try {
+      const tradeId = parseInt(req.params.id);
+      if (isNaN(tradeId)) {
+        return res.status(400).json({ error: "Invalid trade id" });
+      }
+      const fills = await storage.getTradeFills(tradeId);
+      res.json(fills);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get trade fills" });
+    }
+  });
+
+  // Strategy ids for the dashboard filters
+  app.get("/api/strategies", async (req, res) => {
+    try {
+      const strategies = await storage.getStrategies();
+      res.json(strategies);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get strategies" });
+    }
+  });
+
   // Market events endpoint
   app.get("/api/events", async (req, res) => {
     try {
-      const { symbol, status } = req.query;
+      const { symbol, status, variant, strategy, minScore, sort } = req.query;
+      const parsedMinScore = minScore ? parseFloat(minScore as string) : NaN;
       const result = await storage.getEvents({
         symbol: symbol as string | undefined,
         passed: status === "passed" ? true : status === "rejected" ? false : undefined,
+        variant: variant as string | undefined,
+        strategyId: strategy as string | undefined,
+        minScore: isNaN(parsedMinScore) ? undefined : parsedMinScore,
+        sort: sort === "score" ? "score" : "time",
       });
       res.json(result);
     } catch (error) {
@@ -196,29 +334,69 @@ export async function registerRoutes(
           daily_max_loss_pct: updates.daily_max_loss_pct,
           max_trades_per_day: updates.max_trades_per_day,
           max_consecutive_losses: updates.max_consecutive_losses,
-          pause_after_consecutive_losses_minutes: 60,
-          max_margin_per_trade_pct: 0.20,
+          pause_after_consecutive_losses_minutes: updates.pause_after_consecutive_losses_minutes,
+          trading_day_timezone: updates.trading_day_timezone,
+          reconcile_policy: updates.reconcile_policy,
+          reconcile_interval_seconds: updates.reconcile_interval_seconds,
+          max_margin_per_trade_pct: updates.max_margin_per_trade_pct,
+          max_concurrent_positions: updates.max_concurrent_positions,
+          max_total_notional_pct: updates.max_total_notional_pct,
+          max_total_margin_pct: updates.max_total_margin_pct,
+          max_correlated_positions: updates.max_correlated_positions,
         },
         execution: {
           tp_pct: updates.tp_pct,
           sl_pct: updates.sl_pct,
           time_stop_seconds: updates.time_stop_seconds,
-          entry_fill_timeout_ms: 800,
-          use_market_if_not_filled: true,
+          entry_mode: updates.entry_mode,
+          entry_offset_bps: updates.entry_offset_bps,
+          entry_fill_timeout_ms: updates.entry_fill_timeout_ms,
+          use_market_if_not_filled: updates.use_market_if_not_filled,
+          paper_maker_fee_pct: updates.paper_maker_fee_pct,
+          paper_taker_fee_pct: updates.paper_taker_fee_pct,
+          momentum_tp_pct: updates.momentum_tp_pct,
+          momentum_sl_pct: updates.momentum_sl_pct,
+          momentum_time_stop_seconds: updates.momentum_time_stop_seconds,
+          breakeven_enabled: updates.breakeven_enabled,
+          breakeven_trigger_pct: updates.breakeven_trigger_pct,
+          trail_mode: updates.trail_mode,
+          trail_trigger_pct: updates.trail_trigger_pct,
+          trail_pct: updates.trail_pct,
+          trail_atr_mult: updates.trail_atr_mult,
+          scale_out_enabled: updates.scale_out_enabled,
+          tp1_pct: updates.tp1_pct,
+          tp1_close_pct: updates.tp1_close_pct,
+          vol_mode: updates.vol_mode,
+          vol_stop_mult: updates.vol_stop_mult,
+          vol_sl_floor_pct: updates.vol_sl_floor_pct,
+          vol_sl_cap_pct: updates.vol_sl_cap_pct,
         },
         signal: {
           liq_window_seconds: updates.liq_window_seconds,
-          min_liq_usd: { BTCUSDT: 2500000, ETHUSDT: 1250000 },
           volume_lookback: 20,
           volume_mult: updates.volume_mult,
           exhaustion_candles: updates.exhaustion_candles,
-          max_spread_bps: { BTCUSDT: 3, ETHUSDT: 4 },
           symbol_cooldown_seconds: updates.symbol_cooldown_seconds,
+          depth_within_bps: updates.depth_within_bps,
+          min_depth_usd: updates.min_depth_usd,
+          min_book_imbalance: updates.min_book_imbalance,
+          max_funding_rate: updates.max_funding_rate,
+          min_oi_drop_pct: updates.min_oi_drop_pct,
+          funding_buffer_seconds: updates.funding_buffer_seconds,
         },
         feature_flags: {
           enable_sol: updates.enable_sol,
           enable_momentum_variant: updates.enable_momentum_variant,
+          enable_book_filter: updates.enable_book_filter,
+          enable_positioning_filter: updates.enable_positioning_filter,
+        },
+        scoring: {
+          enabled: updates.scoring_enabled,
+          threshold: updates.score_threshold,
+          scale_size: updates.score_size_scaling,
+          weights: updates.criterion_weights,
         },
+        symbol_settings: updates.symbol_settings,
       };
       
       const config = await storage.updateConfig(configUpdate);
@@ -238,20 +416,32 @@ export async function registerRoutes(
   });
 
   // Control endpoints
+  // Pause/resume/flatten are queued in bot_commands; the bot picks them up,
+  // runs them and acknowledges with a result.
+  app.get("/api/control/commands", async (req, res) => {
+    try {
+      const parseResult = commandsQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "limit must be a whole number from 1 to 200" });
+      }
+      const commands = await storage.getCommands(parseResult.data.limit);
+      res.json(commands);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get commands" });
+    }
+  });
+
   app.post("/api/control/pause", async (req, res) => {
     try {
-      const state = await storage.updateBotState({
-        status: "PAUSED_MANUAL",
-      });
+      const command = await storage.enqueueCommand("pause");
       
       await storage.addLog({
-        timestamp: new Date().toISOString(),
         level: "INFO",
-        message: "Bot paused by user",
-        details: null,
+        message: "Pause requested by user",
+        details: `Command #${command.id}`,
       });
       
-      res.json({ success: true, state });
+      res.json({ success: true, command });
     } catch (error) {
       res.status(500).json({ error: "Failed to pause bot" });
     }
@@ -268,41 +458,59 @@ export async function registerRoutes(
         });
       }
       
-      const state = await storage.updateBotState({
-        status: "RUNNING",
-      });
+      const command = await storage.enqueueCommand("resume");
       
       await storage.addLog({
-        timestamp: new Date().toISOString(),
         level: "INFO",
-        message: "Bot resumed by user",
-        details: null,
+        message: "Resume requested by user",
+        details: `Command #${command.id}`,
       });
       
-      res.json({ success: true, state });
+      res.json({ success: true, command });
     } catch (error) {
       res.status(500).json({ error: "Failed to resume bot" });
     }
   });
 
-  app.post("/api/control/flatten", async (req, res) => {
+  // Operator override: resume before a risk-limit pause expires
+  app.post("/api/control/override", async (req, res) => {
     try {
-      // Close any open position
-      await storage.setOpenPosition(null);
+      if (!isOperator(req.body?.operator_token)) {
+        return res.status(403).json({ error: "Operator token required to override a risk-limit pause" });
+      }
       
-      // Pause the bot
-      const state = await storage.updateBotState({
-        status: "PAUSED_MANUAL",
+      const currentState = await storage.getBotState();
+      if (currentState.status !== "PAUSED_RISK_LIMIT") {
+        return res.status(400).json({ 
+          error: "Cannot override: bot is not paused by a risk limit" 
+        });
+      }
+      
+      const command = await storage.enqueueCommand("override");
+      
+      await storage.addLog({
+        level: "WARN",
+        message: "Risk-limit override requested by operator",
+        details: `Command #${command.id} (${currentState.pauseReason ?? "unknown limit"})`,
       });
       
+      res.json({ success: true, command });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to override risk pause" });
+    }
+  });
+
+  app.post("/api/control/flatten", async (req, res) => {
+    try {
+      const command = await storage.enqueueCommand("flatten");
+      
       await storage.addLog({
-        timestamp: new Date().toISOString(),
         level: "WARN",
-        message: "Emergency flatten executed by user - all positions closed",
-        details: null,
+        message: "Emergency flatten requested by user",
+        details: `Command #${command.id}`,
       });
       
-      res.json({ success: true, state });
+      res.json({ success: true, command });
     } catch (error) {
       res.status(500).json({ error: "Failed to flatten positions" });
     }
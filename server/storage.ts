@@ -1,37 +1,64 @@
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, asc, and, gte, lte, inArray, isNotNull, sql } from "drizzle-orm";
 import { db } from "./db";
 import {
   botStates,
   metrics,
   trades,
+  tradeFills,
   marketEvents,
   logEntries,
   configs,
   healthChecks,
+  botCommands,
+  symbolSettings,
   type BotState,
   type Metrics,
+  type DailyMetrics,
   type OpenPosition,
   type Trade,
+  type TradeFill,
   type MarketEvent,
   type LogEntry,
   type Config,
   type ChecklistItem,
   type HealthCheck,
+  type BotCommand,
+  type VariantSummary,
+  type ControlAction,
   type InsertTrade,
   type InsertMarketEvent,
   type InsertLogEntry,
+  type SymbolSetting,
+  type CriterionKey,
+  type CriterionWeight,
+  DEFAULT_STRATEGY_ID,
+  DEFAULT_CRITERION_WEIGHTS,
+  CriterionKeyEnum,
+  criterionWeightSchema,
+  DEFAULT_SYMBOL_SETTINGS,
+  TrailModeEnum,
+  VolModeEnum,
+  PauseReasonEnum,
+  TradingDayTimezoneEnum,
+  ReconcilePolicyEnum,
+  ReconcileStatusEnum,
+  EntryModeEnum,
 } from "@shared/schema";
 
 export interface IStorage {
   getBotState(): Promise<BotState>;
   updateBotState(updates: Partial<BotState>): Promise<BotState>;
   getMetrics(): Promise<Metrics>;
+  getDailyMetrics(filters?: { from?: string; to?: string; limit?: number }): Promise<DailyMetrics[]>;
   updateMetrics(updates: Partial<Metrics>): Promise<Metrics>;
-  getOpenPosition(): Promise<OpenPosition | null>;
+  getOpenPositions(): Promise<OpenPosition[]>;
   setOpenPosition(position: OpenPosition | null): Promise<void>;
-  getTrades(filters?: { symbol?: string; side?: string; exitReason?: string; page?: number; pageSize?: number }): Promise<{ trades: Trade[]; total: number }>;
+  getTrades(filters?: { symbol?: string; side?: string; exitReason?: string; variant?: string; strategyId?: string; page?: number; pageSize?: number }): Promise<{ trades: Trade[]; total: number }>;
+  getVariantSummary(): Promise<VariantSummary[]>;
+  getStrategies(): Promise<string[]>;
   addTrade(trade: InsertTrade): Promise<Trade>;
-  getEvents(filters?: { symbol?: string; passed?: boolean }): Promise<{ events: MarketEvent[]; total: number }>;
+  getTradeFills(tradeId: number): Promise<TradeFill[]>;
+  getEvents(filters?: { symbol?: string; passed?: boolean; variant?: string; strategyId?: string; minScore?: number; sort?: "time" | "score" }): Promise<{ events: MarketEvent[]; total: number }>;
   addEvent(event: InsertMarketEvent): Promise<MarketEvent>;
   getLogs(filters?: { level?: string; limit?: number }): Promise<{ logs: LogEntry[]; total: number }>;
   addLog(log: InsertLogEntry): Promise<LogEntry>;
@@ -40,6 +67,8 @@ export interface IStorage {
   getChecklist(): Promise<ChecklistItem[]>;
   getHealth(): Promise<HealthCheck>;
   updateHealth(health: Partial<HealthCheck>): Promise<HealthCheck>;
+  enqueueCommand(command: ControlAction): Promise<BotCommand>;
+  getCommands(limit?: number): Promise<BotCommand[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -68,6 +97,12 @@ export class DatabaseStorage implements IStorage {
       tradingMode: state.tradingMode,
       paperStartDate: state.paperStartDate?.toISOString() || null,
       paperTradesCount: state.paperTradesCount,
+      runningConfigVersion: state.runningConfigVersion,
+      pauseReason: PauseReasonEnum.nullable().catch(null).parse(state.pauseReason),
+      resumeAt: state.resumeAt?.toISOString() || null,
+      reconciledAt: state.reconciledAt?.toISOString() || null,
+      reconcileStatus: ReconcileStatusEnum.nullable().catch(null).parse(state.reconcileStatus),
+      reconcileDetail: state.reconcileDetail,
     };
   }
 
@@ -92,6 +127,7 @@ export class DatabaseStorage implements IStorage {
     
     if (!record) {
       return {
+        tradingDay: null,
         equityUsdt: 0,
         equityZar: 0,
         todayPnlUsdt: 0,
@@ -108,6 +144,7 @@ export class DatabaseStorage implements IStorage {
     }
     
     return {
+      tradingDay: record.tradingDay,
       equityUsdt: record.equityUsdt,
       equityZar: record.equityZar,
       todayPnlUsdt: record.todayPnlUsdt,
@@ -123,6 +160,37 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Newest day first; from/to are inclusive YYYY-MM-DD trading days
+  async getDailyMetrics(filters?: { from?: string; to?: string; limit?: number }): Promise<DailyMetrics[]> {
+    const conditions: any[] = [isNotNull(metrics.tradingDay)];
+    
+    if (filters?.from) {
+      conditions.push(gte(metrics.tradingDay, filters.from));
+    }
+    if (filters?.to) {
+      conditions.push(lte(metrics.tradingDay, filters.to));
+    }
+    
+    const rows = await db.select()
+      .from(metrics)
+      .where(and(...conditions))
+      .orderBy(desc(metrics.tradingDay))
+      .limit(filters?.limit || 30);
+    
+    return rows.map(r => ({
+      tradingDay: r.tradingDay!,
+      closedAt: r.closedAt?.toISOString() || null,
+      equityUsdt: r.equityUsdt,
+      pnlUsdt: r.todayPnlUsdt,
+      pnlPct: r.todayPnlPct,
+      maxDrawdownPct: r.todayMaxDrawdownPct,
+      tradeCount: r.todayTradeCount,
+      winCount: r.todayWinCount,
+      lossCount: r.todayLossCount,
+      winRate: r.winRate,
+    }));
+  }
+
   async updateMetrics(updates: Partial<Metrics>): Promise<Metrics> {
     const [existing] = await db.select().from(metrics).orderBy(desc(metrics.id)).limit(1);
     
@@ -151,29 +219,31 @@ export class DatabaseStorage implements IStorage {
     return this.getMetrics();
   }
 
-  async getOpenPosition(): Promise<OpenPosition | null> {
-    const [openTrade] = await db.select()
+  async getOpenPositions(): Promise<OpenPosition[]> {
+    const openTrades = await db.select()
       .from(trades)
       .where(eq(trades.isOpen, true))
-      .orderBy(desc(trades.entryTimestamp))
-      .limit(1);
+      .orderBy(desc(trades.entryTimestamp));
     
-    if (!openTrade) return null;
-    
-    const entryTime = openTrade.entryTimestamp ? new Date(openTrade.entryTimestamp).getTime() : Date.now();
-    const timeInTrade = Math.floor((Date.now() - entryTime) / 1000);
-    
-    return {
-      id: openTrade.id,
-      symbol: openTrade.symbol,
-      side: openTrade.side,
-      entryPrice: openTrade.entryPrice,
-      quantity: openTrade.quantity,
-      unrealizedPnlUsdt: 0,
-      unrealizedPnlPct: 0,
-      entryTimestamp: openTrade.entryTimestamp?.toISOString() || new Date().toISOString(),
-      timeInTrade,
-    };
+    return openTrades.map(openTrade => {
+      const entryTime = openTrade.entryTimestamp ? new Date(openTrade.entryTimestamp).getTime() : Date.now();
+      const timeInTrade = Math.floor((Date.now() - entryTime) / 1000);
+      
+      return {
+        id: openTrade.id,
+        symbol: openTrade.symbol,
+        side: openTrade.side,
+        entryPrice: openTrade.entryPrice,
+        quantity: openTrade.quantity,
+        notionalUsdt: openTrade.entryPrice * openTrade.quantity,
+        variant: openTrade.variant,
+        strategyId: openTrade.strategyId,
+        unrealizedPnlUsdt: 0,
+        unrealizedPnlPct: 0,
+        entryTimestamp: openTrade.entryTimestamp?.toISOString() || new Date().toISOString(),
+        timeInTrade,
+      };
+    });
   }
 
   async setOpenPosition(position: OpenPosition | null): Promise<void> {
@@ -182,7 +252,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getTrades(filters?: { symbol?: string; side?: string; exitReason?: string; page?: number; pageSize?: number }): Promise<{ trades: Trade[]; total: number }> {
+  async getTrades(filters?: { symbol?: string; side?: string; exitReason?: string; variant?: string; strategyId?: string; page?: number; pageSize?: number }): Promise<{ trades: Trade[]; total: number }> {
     const conditions = [eq(trades.isOpen, false)];
     
     if (filters?.symbol) {
@@ -194,6 +264,12 @@ export class DatabaseStorage implements IStorage {
     if (filters?.exitReason) {
       conditions.push(eq(trades.exitReason, filters.exitReason));
     }
+    if (filters?.variant) {
+      conditions.push(eq(trades.variant, filters.variant));
+    }
+    if (filters?.strategyId) {
+      conditions.push(eq(trades.strategyId, filters.strategyId));
+    }
     
     const whereClause = conditions.length > 1 ? and(...conditions) : conditions[0];
     
@@ -212,6 +288,17 @@ export class DatabaseStorage implements IStorage {
       .limit(pageSize)
       .offset(offset);
     
+    const fillCounts = new Map<number, number>();
+    if (results.length > 0) {
+      const counts = await db.select({ tradeId: tradeFills.tradeId, count: sql<number>`count(*)` })
+        .from(tradeFills)
+        .where(inArray(tradeFills.tradeId, results.map(t => t.id)))
+        .groupBy(tradeFills.tradeId);
+      for (const row of counts) {
+        fillCounts.set(row.tradeId, Number(row.count));
+      }
+    }
+    
     return {
       trades: results.map(t => ({
         id: t.id,
@@ -225,10 +312,24 @@ export class DatabaseStorage implements IStorage {
         duration: t.duration,
         fees: t.fees,
         slippageEst: t.slippageEst,
+        tpPct: t.tpPct,
+        slPct: t.slPct,
+        stopMode: t.stopMode,
+        volPct: t.volPct,
+        entryMode: t.entryMode,
+        fillRatio: t.fillRatio,
+        timeToFillMs: t.timeToFillMs,
+        sizeReductionPct: t.sizeReductionPct,
+        sizeLimit: t.sizeLimit,
+        netPnlUsdt: t.netPnlUsdt,
+        commissionAsset: t.commissionAsset,
         exitReason: t.exitReason,
         entryTimestamp: t.entryTimestamp?.toISOString() || new Date().toISOString(),
         exitTimestamp: t.exitTimestamp?.toISOString() || null,
         setupId: t.setupId,
+        variant: t.variant,
+        strategyId: t.strategyId,
+        fillCount: fillCounts.get(t.id) || 0,
       })),
       total: Number(countResult?.count || 0),
     };
@@ -248,14 +349,91 @@ export class DatabaseStorage implements IStorage {
       duration: newTrade.duration,
       fees: newTrade.fees,
       slippageEst: newTrade.slippageEst,
+      tpPct: newTrade.tpPct,
+      slPct: newTrade.slPct,
+      stopMode: newTrade.stopMode,
+      volPct: newTrade.volPct,
+      entryMode: newTrade.entryMode,
+      fillRatio: newTrade.fillRatio,
+      timeToFillMs: newTrade.timeToFillMs,
+      sizeReductionPct: newTrade.sizeReductionPct,
+      sizeLimit: newTrade.sizeLimit,
+      netPnlUsdt: newTrade.netPnlUsdt,
+      commissionAsset: newTrade.commissionAsset,
       exitReason: newTrade.exitReason,
       entryTimestamp: newTrade.entryTimestamp?.toISOString() || new Date().toISOString(),
       exitTimestamp: newTrade.exitTimestamp?.toISOString() || null,
       setupId: newTrade.setupId,
+      variant: newTrade.variant,
+      strategyId: newTrade.strategyId,
+      fillCount: 0,
     };
   }
 
-  async getEvents(filters?: { symbol?: string; passed?: boolean }): Promise<{ events: MarketEvent[]; total: number }> {
+  async getTradeFills(tradeId: number): Promise<TradeFill[]> {
+    const results = await db.select()
+      .from(tradeFills)
+      .where(eq(tradeFills.tradeId, tradeId))
+      .orderBy(asc(tradeFills.timestamp), asc(tradeFills.id));
+    
+    return results.map(f => ({
+      id: f.id,
+      tradeId: f.tradeId,
+      side: f.side,
+      reason: f.reason,
+      price: f.price,
+      quantity: f.quantity,
+      pnlUsdt: f.pnlUsdt,
+      fees: f.fees,
+      commission: f.commission,
+      commissionAsset: f.commissionAsset,
+      timestamp: f.timestamp?.toISOString() || new Date().toISOString(),
+    }));
+  }
+
+  // Wins and PnL are net of commission, as the bot counts them; trades from
+  // before net PnL was stored fall back to their gross PnL
+  async getVariantSummary(): Promise<VariantSummary[]> {
+    const netPnl = sql`coalesce(${trades.netPnlUsdt}, ${trades.pnlUsdt})`;
+    const results = await db.select({
+      variant: trades.variant,
+      trades: sql<number>`count(*)`,
+      wins: sql<number>`count(*) filter (where ${netPnl} >= 0)`,
+      pnlUsdt: sql<number>`coalesce(sum(${netPnl}), 0)`,
+    })
+      .from(trades)
+      .where(eq(trades.isOpen, false))
+      .groupBy(trades.variant);
+    
+    return results.map(r => {
+      const count = Number(r.trades);
+      const wins = Number(r.wins);
+      return {
+        variant: r.variant,
+        trades: count,
+        wins,
+        losses: count - wins,
+        pnlUsdt: Number(r.pnlUsdt),
+        winRate: count > 0 ? wins / count : 0,
+      };
+    });
+  }
+
+  // Every strategy that has evaluated a signal or recorded a trade
+  async getStrategies(): Promise<string[]> {
+    const [fromEvents, fromTrades] = await Promise.all([
+      db.selectDistinct({ strategyId: marketEvents.strategyId }).from(marketEvents),
+      db.selectDistinct({ strategyId: trades.strategyId }).from(trades),
+    ]);
+    
+    const ids = new Set([DEFAULT_STRATEGY_ID]);
+    for (const row of [...fromEvents, ...fromTrades]) {
+      ids.add(row.strategyId);
+    }
+    return Array.from(ids).sort();
+  }
+
+  async getEvents(filters?: { symbol?: string; passed?: boolean; variant?: string; strategyId?: string; minScore?: number; sort?: "time" | "score" }): Promise<{ events: MarketEvent[]; total: number }> {
     const conditions: any[] = [];
     
     if (filters?.symbol) {
@@ -264,6 +442,15 @@ export class DatabaseStorage implements IStorage {
     if (filters?.passed !== undefined) {
       conditions.push(eq(marketEvents.passed, filters.passed));
     }
+    if (filters?.variant) {
+      conditions.push(eq(marketEvents.variant, filters.variant));
+    }
+    if (filters?.strategyId) {
+      conditions.push(eq(marketEvents.strategyId, filters.strategyId));
+    }
+    if (filters?.minScore !== undefined) {
+      conditions.push(gte(marketEvents.score, filters.minScore));
+    }
     
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
     
@@ -274,7 +461,9 @@ export class DatabaseStorage implements IStorage {
     const results = await db.select()
       .from(marketEvents)
       .where(whereClause)
-      .orderBy(desc(marketEvents.timestamp))
+      .orderBy(...(filters?.sort === "score"
+        ? [sql`${marketEvents.score} desc nulls last`, desc(marketEvents.timestamp)]
+        : [desc(marketEvents.timestamp)]))
       .limit(100);
     
     return {
@@ -284,7 +473,12 @@ export class DatabaseStorage implements IStorage {
         symbol: e.symbol,
         liquidationUsd: e.liquidationUsd,
         liquidationSide: e.liquidationSide,
+        liquidationCount: e.liquidationCount,
+        cascadeDurationMs: e.cascadeDurationMs,
+        cascadeVwap: e.cascadeVwap,
         volumeMult: e.volumeMult,
+        recentVolumeUsd: e.recentVolumeUsd,
+        baselineVolumeUsd: e.baselineVolumeUsd,
         spreadBps: e.spreadBps,
         priceDelta: e.priceDelta,
         exhaustionCandles: e.exhaustionCandles,
@@ -293,6 +487,22 @@ export class DatabaseStorage implements IStorage {
         spreadOk: e.spreadOk,
         momentumOk: e.momentumOk,
         exhaustionOk: e.exhaustionOk,
+        breakoutOk: e.breakoutOk,
+        bookImbalance: e.bookImbalance,
+        depthBidUsd: e.depthBidUsd,
+        depthAskUsd: e.depthAskUsd,
+        imbalanceOk: e.imbalanceOk,
+        depthOk: e.depthOk,
+        fundingRate: e.fundingRate,
+        fundingSecondsLeft: e.fundingSecondsLeft,
+        oiChangePct: e.oiChangePct,
+        fundingOk: e.fundingOk,
+        oiDropOk: e.oiDropOk,
+        fundingTimeOk: e.fundingTimeOk,
+        score: e.score,
+        scoreContributions: e.scoreContributions as Partial<Record<CriterionKey, number>> | null,
+        variant: e.variant,
+        strategyId: e.strategyId,
         passed: e.passed,
         rejectionReason: e.rejectionReason,
       })),
@@ -308,7 +518,12 @@ export class DatabaseStorage implements IStorage {
       symbol: newEvent.symbol,
       liquidationUsd: newEvent.liquidationUsd,
       liquidationSide: newEvent.liquidationSide,
+      liquidationCount: newEvent.liquidationCount,
+      cascadeDurationMs: newEvent.cascadeDurationMs,
+      cascadeVwap: newEvent.cascadeVwap,
       volumeMult: newEvent.volumeMult,
+      recentVolumeUsd: newEvent.recentVolumeUsd,
+      baselineVolumeUsd: newEvent.baselineVolumeUsd,
       spreadBps: newEvent.spreadBps,
       priceDelta: newEvent.priceDelta,
       exhaustionCandles: newEvent.exhaustionCandles,
@@ -317,6 +532,22 @@ export class DatabaseStorage implements IStorage {
       spreadOk: newEvent.spreadOk,
       momentumOk: newEvent.momentumOk,
       exhaustionOk: newEvent.exhaustionOk,
+      breakoutOk: newEvent.breakoutOk,
+      bookImbalance: newEvent.bookImbalance,
+      depthBidUsd: newEvent.depthBidUsd,
+      depthAskUsd: newEvent.depthAskUsd,
+      imbalanceOk: newEvent.imbalanceOk,
+      depthOk: newEvent.depthOk,
+      fundingRate: newEvent.fundingRate,
+      fundingSecondsLeft: newEvent.fundingSecondsLeft,
+      oiChangePct: newEvent.oiChangePct,
+      fundingOk: newEvent.fundingOk,
+      oiDropOk: newEvent.oiDropOk,
+      fundingTimeOk: newEvent.fundingTimeOk,
+      score: newEvent.score,
+      scoreContributions: newEvent.scoreContributions as Partial<Record<CriterionKey, number>> | null,
+      variant: newEvent.variant,
+      strategyId: newEvent.strategyId,
       passed: newEvent.passed,
       rejectionReason: newEvent.rejectionReason,
     };
@@ -366,8 +597,12 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // The dashboard edits the default strategy's config; other strategies keep their own rows
   async getConfig(): Promise<Config> {
-    const [record] = await db.select().from(configs).orderBy(desc(configs.id)).limit(1);
+    const [record] = await db.select().from(configs)
+      .where(eq(configs.strategyId, DEFAULT_STRATEGY_ID))
+      .orderBy(desc(configs.id))
+      .limit(1);
     
     if (!record) {
       return this.getDefaultConfig();
@@ -384,31 +619,120 @@ export class DatabaseStorage implements IStorage {
         max_trades_per_day: record.maxTradesPerDay,
         max_consecutive_losses: record.maxConsecutiveLosses,
         pause_after_consecutive_losses_minutes: record.pauseAfterLossesMinutes,
+        trading_day_timezone: TradingDayTimezoneEnum.catch("UTC").parse(record.tradingDayTimezone),
+        reconcile_policy: ReconcilePolicyEnum.catch("ALERT").parse(record.reconcilePolicy),
+        reconcile_interval_seconds: record.reconcileIntervalSeconds,
         max_margin_per_trade_pct: record.maxMarginPerTradePct,
+        max_concurrent_positions: record.maxConcurrentPositions,
+        max_total_notional_pct: record.maxTotalNotionalPct,
+        max_total_margin_pct: record.maxTotalMarginPct,
+        max_correlated_positions: record.maxCorrelatedPositions,
       },
       signal: {
         liq_window_seconds: record.liqWindowSeconds,
-        min_liq_usd: { BTCUSDT: 2500000, ETHUSDT: 1250000 },
         volume_lookback: record.volumeLookback,
         volume_mult: record.volumeMult,
         exhaustion_candles: record.exhaustionCandles,
-        max_spread_bps: { BTCUSDT: 3, ETHUSDT: 4 },
         symbol_cooldown_seconds: record.symbolCooldownSeconds,
+        depth_within_bps: record.depthWithinBps,
+        min_depth_usd: record.minDepthUsd,
+        min_book_imbalance: record.minBookImbalance,
+        max_funding_rate: record.maxFundingRate,
+        min_oi_drop_pct: record.minOiDropPct,
+        funding_buffer_seconds: record.fundingBufferSeconds,
       },
       execution: {
         tp_pct: record.tpPct,
         sl_pct: record.slPct,
         time_stop_seconds: record.timeStopSeconds,
+        entry_mode: EntryModeEnum.catch("MARKET").parse(record.entryMode),
+        entry_offset_bps: record.entryOffsetBps,
         entry_fill_timeout_ms: record.entryFillTimeoutMs,
         use_market_if_not_filled: record.useMarketIfNotFilled,
+        paper_maker_fee_pct: record.paperMakerFeePct,
+        paper_taker_fee_pct: record.paperTakerFeePct,
+        momentum_tp_pct: record.momentumTpPct,
+        momentum_sl_pct: record.momentumSlPct,
+        momentum_time_stop_seconds: record.momentumTimeStopSeconds,
+        breakeven_enabled: record.breakevenEnabled,
+        breakeven_trigger_pct: record.breakevenTriggerPct,
+        trail_mode: TrailModeEnum.catch("OFF").parse(record.trailMode),
+        trail_trigger_pct: record.trailTriggerPct,
+        trail_pct: record.trailPct,
+        trail_atr_mult: record.trailAtrMult,
+        scale_out_enabled: record.scaleOutEnabled,
+        tp1_pct: record.tp1Pct,
+        tp1_close_pct: record.tp1ClosePct,
+        vol_mode: VolModeEnum.catch("OFF").parse(record.volMode),
+        vol_stop_mult: record.volStopMult,
+        vol_sl_floor_pct: record.volSlFloorPct,
+        vol_sl_cap_pct: record.volSlCapPct,
       },
       feature_flags: {
         enable_sol: record.enableSol,
         enable_momentum_variant: record.enableMomentumVariant,
+        enable_book_filter: record.enableBookFilter,
+        enable_positioning_filter: record.enablePositioningFilter,
+      },
+      scoring: {
+        enabled: record.scoringEnabled,
+        threshold: record.scoreThreshold,
+        scale_size: record.scoreSizeScaling,
+        weights: this.parseCriterionWeights(record.criterionWeights),
       },
+      symbol_settings: await this.getSymbolSettings(),
     };
   }
 
+  // Every criterion gets a weight; missing or malformed entries use the defaults
+  private parseCriterionWeights(raw: unknown): Record<CriterionKey, CriterionWeight> {
+    const stored = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const weights = { ...DEFAULT_CRITERION_WEIGHTS };
+    for (const key of CriterionKeyEnum.options) {
+      const parsed = criterionWeightSchema.safeParse(stored[key]);
+      if (parsed.success) weights[key] = parsed.data;
+    }
+    return weights;
+  }
+
+  // One entry per supported symbol; symbols without a row yet get the defaults
+  private async getSymbolSettings(): Promise<SymbolSetting[]> {
+    const rows = await db.select().from(symbolSettings);
+    
+    return DEFAULT_SYMBOL_SETTINGS.map(defaults => {
+      const row = rows.find(r => r.symbol === defaults.symbol);
+      if (!row) return defaults;
+      
+      return {
+        symbol: defaults.symbol,
+        enabled: row.enabled,
+        min_liq_usd: row.minLiqUsd,
+        max_spread_bps: row.maxSpreadBps,
+        cooldown_seconds: row.cooldownSeconds,
+        tp_pct: row.tpPct,
+        sl_pct: row.slPct,
+      };
+    });
+  }
+
+  private async saveSymbolSettings(settings: SymbolSetting[]) {
+    for (const setting of settings) {
+      const values = {
+        enabled: setting.enabled,
+        minLiqUsd: setting.min_liq_usd,
+        maxSpreadBps: setting.max_spread_bps,
+        cooldownSeconds: setting.cooldown_seconds,
+        tpPct: setting.tp_pct,
+        slPct: setting.sl_pct,
+        updatedAt: new Date(),
+      };
+      
+      await db.insert(symbolSettings)
+        .values({ symbol: setting.symbol, ...values })
+        .onConflictDoUpdate({ target: symbolSettings.symbol, set: values });
+    }
+  }
+
   private getDefaultConfig(): Config {
     return {
       version: 1,
@@ -421,62 +745,156 @@ export class DatabaseStorage implements IStorage {
         max_trades_per_day: 10,
         max_consecutive_losses: 3,
         pause_after_consecutive_losses_minutes: 60,
+        trading_day_timezone: "UTC",
+        reconcile_policy: "ALERT",
+        reconcile_interval_seconds: 30,
         max_margin_per_trade_pct: 0.20,
+        max_concurrent_positions: 2,
+        max_total_notional_pct: 1.5,
+        max_total_margin_pct: 0.6,
+        max_correlated_positions: 1,
       },
       signal: {
         liq_window_seconds: 60,
-        min_liq_usd: { BTCUSDT: 2500000, ETHUSDT: 1250000 },
         volume_lookback: 20,
         volume_mult: 2.0,
         exhaustion_candles: 2,
-        max_spread_bps: { BTCUSDT: 3, ETHUSDT: 4 },
         symbol_cooldown_seconds: 300,
+        depth_within_bps: 10,
+        min_depth_usd: 250000,
+        min_book_imbalance: 0,
+        max_funding_rate: 0.0005,
+        min_oi_drop_pct: 0.002,
+        funding_buffer_seconds: 300,
       },
       execution: {
         tp_pct: 0.0035,
         sl_pct: 0.0045,
         time_stop_seconds: 150,
+        entry_mode: "MARKET",
+        entry_offset_bps: 2,
         entry_fill_timeout_ms: 800,
         use_market_if_not_filled: true,
+        paper_maker_fee_pct: 0.0002,
+        paper_taker_fee_pct: 0.0005,
+        momentum_tp_pct: 0.005,
+        momentum_sl_pct: 0.003,
+        momentum_time_stop_seconds: 120,
+        breakeven_enabled: false,
+        breakeven_trigger_pct: 0.002,
+        trail_mode: "OFF",
+        trail_trigger_pct: 0.0025,
+        trail_pct: 0.002,
+        trail_atr_mult: 1.5,
+        scale_out_enabled: false,
+        tp1_pct: 0.0025,
+        tp1_close_pct: 0.5,
+        vol_mode: "OFF",
+        vol_stop_mult: 3,
+        vol_sl_floor_pct: 0.002,
+        vol_sl_cap_pct: 0.01,
       },
       feature_flags: {
         enable_sol: false,
         enable_momentum_variant: false,
+        enable_book_filter: false,
+        enable_positioning_filter: false,
       },
+      scoring: {
+        enabled: false,
+        threshold: 0.7,
+        scale_size: false,
+        weights: DEFAULT_CRITERION_WEIGHTS,
+      },
+      symbol_settings: DEFAULT_SYMBOL_SETTINGS,
     };
   }
 
   async updateConfig(updates: Partial<Config>): Promise<Config> {
     const current = await this.getConfig();
     
-    const [existing] = await db.select().from(configs).orderBy(desc(configs.id)).limit(1);
+    const [existing] = await db.select().from(configs)
+      .where(eq(configs.strategyId, DEFAULT_STRATEGY_ID))
+      .orderBy(desc(configs.id))
+      .limit(1);
+    
+    const settings = updates.symbol_settings ?? current.symbol_settings;
+    const enableSol = updates.feature_flags?.enable_sol ?? current.feature_flags.enable_sol;
+    
+    // The traded symbol list follows the enabled symbol settings; SOL also needs its feature flag
+    const symbols = updates.symbols ?? settings
+      .filter(s => s.enabled && (s.symbol !== "SOLUSDT" || enableSol))
+      .map(s => s.symbol);
     
     const newConfig = {
       version: (current.version || 0) + 1,
       mode: updates.mode || current.mode,
-      symbols: (updates.symbols || current.symbols).join(","),
+      symbols: symbols.join(","),
       leverage: updates.leverage ?? current.leverage,
       riskPerTradePct: updates.risk?.risk_per_trade_pct ?? current.risk.risk_per_trade_pct,
       dailyMaxLossPct: updates.risk?.daily_max_loss_pct ?? current.risk.daily_max_loss_pct,
       maxTradesPerDay: updates.risk?.max_trades_per_day ?? current.risk.max_trades_per_day,
       maxConsecutiveLosses: updates.risk?.max_consecutive_losses ?? current.risk.max_consecutive_losses,
       pauseAfterLossesMinutes: updates.risk?.pause_after_consecutive_losses_minutes ?? current.risk.pause_after_consecutive_losses_minutes,
+      tradingDayTimezone: updates.risk?.trading_day_timezone ?? current.risk.trading_day_timezone,
+      reconcilePolicy: updates.risk?.reconcile_policy ?? current.risk.reconcile_policy,
+      reconcileIntervalSeconds: updates.risk?.reconcile_interval_seconds ?? current.risk.reconcile_interval_seconds,
       maxMarginPerTradePct: updates.risk?.max_margin_per_trade_pct ?? current.risk.max_margin_per_trade_pct,
+      maxConcurrentPositions: updates.risk?.max_concurrent_positions ?? current.risk.max_concurrent_positions,
+      maxTotalNotionalPct: updates.risk?.max_total_notional_pct ?? current.risk.max_total_notional_pct,
+      maxTotalMarginPct: updates.risk?.max_total_margin_pct ?? current.risk.max_total_margin_pct,
+      maxCorrelatedPositions: updates.risk?.max_correlated_positions ?? current.risk.max_correlated_positions,
       liqWindowSeconds: updates.signal?.liq_window_seconds ?? current.signal.liq_window_seconds,
       volumeLookback: updates.signal?.volume_lookback ?? current.signal.volume_lookback,
       volumeMult: updates.signal?.volume_mult ?? current.signal.volume_mult,
       exhaustionCandles: updates.signal?.exhaustion_candles ?? current.signal.exhaustion_candles,
       symbolCooldownSeconds: updates.signal?.symbol_cooldown_seconds ?? current.signal.symbol_cooldown_seconds,
+      depthWithinBps: updates.signal?.depth_within_bps ?? current.signal.depth_within_bps,
+      minDepthUsd: updates.signal?.min_depth_usd ?? current.signal.min_depth_usd,
+      minBookImbalance: updates.signal?.min_book_imbalance ?? current.signal.min_book_imbalance,
+      maxFundingRate: updates.signal?.max_funding_rate ?? current.signal.max_funding_rate,
+      minOiDropPct: updates.signal?.min_oi_drop_pct ?? current.signal.min_oi_drop_pct,
+      fundingBufferSeconds: updates.signal?.funding_buffer_seconds ?? current.signal.funding_buffer_seconds,
       tpPct: updates.execution?.tp_pct ?? current.execution.tp_pct,
       slPct: updates.execution?.sl_pct ?? current.execution.sl_pct,
       timeStopSeconds: updates.execution?.time_stop_seconds ?? current.execution.time_stop_seconds,
+      entryMode: updates.execution?.entry_mode ?? current.execution.entry_mode,
+      entryOffsetBps: updates.execution?.entry_offset_bps ?? current.execution.entry_offset_bps,
       entryFillTimeoutMs: updates.execution?.entry_fill_timeout_ms ?? current.execution.entry_fill_timeout_ms,
       useMarketIfNotFilled: updates.execution?.use_market_if_not_filled ?? current.execution.use_market_if_not_filled,
-      enableSol: updates.feature_flags?.enable_sol ?? current.feature_flags.enable_sol,
+      paperMakerFeePct: updates.execution?.paper_maker_fee_pct ?? current.execution.paper_maker_fee_pct,
+      paperTakerFeePct: updates.execution?.paper_taker_fee_pct ?? current.execution.paper_taker_fee_pct,
+      momentumTpPct: updates.execution?.momentum_tp_pct ?? current.execution.momentum_tp_pct,
+      momentumSlPct: updates.execution?.momentum_sl_pct ?? current.execution.momentum_sl_pct,
+      momentumTimeStopSeconds: updates.execution?.momentum_time_stop_seconds ?? current.execution.momentum_time_stop_seconds,
+      breakevenEnabled: updates.execution?.breakeven_enabled ?? current.execution.breakeven_enabled,
+      breakevenTriggerPct: updates.execution?.breakeven_trigger_pct ?? current.execution.breakeven_trigger_pct,
+      trailMode: updates.execution?.trail_mode ?? current.execution.trail_mode,
+      trailTriggerPct: updates.execution?.trail_trigger_pct ?? current.execution.trail_trigger_pct,
+      trailPct: updates.execution?.trail_pct ?? current.execution.trail_pct,
+      trailAtrMult: updates.execution?.trail_atr_mult ?? current.execution.trail_atr_mult,
+      scaleOutEnabled: updates.execution?.scale_out_enabled ?? current.execution.scale_out_enabled,
+      tp1Pct: updates.execution?.tp1_pct ?? current.execution.tp1_pct,
+      tp1ClosePct: updates.execution?.tp1_close_pct ?? current.execution.tp1_close_pct,
+      volMode: updates.execution?.vol_mode ?? current.execution.vol_mode,
+      volStopMult: updates.execution?.vol_stop_mult ?? current.execution.vol_stop_mult,
+      volSlFloorPct: updates.execution?.vol_sl_floor_pct ?? current.execution.vol_sl_floor_pct,
+      volSlCapPct: updates.execution?.vol_sl_cap_pct ?? current.execution.vol_sl_cap_pct,
+      enableSol,
       enableMomentumVariant: updates.feature_flags?.enable_momentum_variant ?? current.feature_flags.enable_momentum_variant,
+      enableBookFilter: updates.feature_flags?.enable_book_filter ?? current.feature_flags.enable_book_filter,
+      enablePositioningFilter: updates.feature_flags?.enable_positioning_filter ?? current.feature_flags.enable_positioning_filter,
+      scoringEnabled: updates.scoring?.enabled ?? current.scoring.enabled,
+      scoreThreshold: updates.scoring?.threshold ?? current.scoring.threshold,
+      scoreSizeScaling: updates.scoring?.scale_size ?? current.scoring.scale_size,
+      criterionWeights: updates.scoring?.weights ?? current.scoring.weights,
       updatedAt: new Date(),
     };
     
+    if (updates.symbol_settings) {
+      await this.saveSymbolSettings(updates.symbol_settings);
+    }
+    
     if (existing) {
       await db.update(configs).set(newConfig).where(eq(configs.id, existing.id));
     } else {
@@ -490,8 +908,13 @@ export class DatabaseStorage implements IStorage {
     const state = await this.getBotState();
     const metricsData = await this.getMetrics();
     const health = await this.getHealth();
-    const openPos = await this.getOpenPosition();
-    
+    const openPositions = await this.getOpenPositions();
+    const config = await this.getConfig();
+    const maxPositions = config.risk.max_concurrent_positions;
+    // Three missed passes in a row means the reconciler is not running
+    const reconcileStale = state.reconciledAt !== null &&
+      Date.now() - new Date(state.reconciledAt).getTime() > config.risk.reconcile_interval_seconds * 3 * 1000;
+
     return [
       {
         id: "services",
@@ -506,7 +929,9 @@ export class DatabaseStorage implements IStorage {
         description: "Daily loss, consecutive losses",
         status: state.status === "PAUSED_RISK_LIMIT" ? "error" : 
                 metricsData.consecutiveLosses >= 2 ? "warning" : "ok",
-        value: null,
+        value: state.status === "PAUSED_RISK_LIMIT" && state.pauseReason
+          ? state.pauseReason === "DAILY_LOSS" ? "Daily loss" : "Consecutive losses"
+          : null,
       },
       {
         id: "errors",
@@ -527,8 +952,19 @@ export class DatabaseStorage implements IStorage {
         id: "positions",
         label: "Open positions manageable",
         description: "Current exposure",
-        status: "ok",
-        value: openPos ? "1 open" : "None",
+        status: openPositions.length > maxPositions ? "error" :
+                openPositions.length === maxPositions ? "warning" : "ok",
+        value: openPositions.length > 0 ? `${openPositions.length}/${maxPositions} open` : "None",
+      },
+      {
+        id: "reconciliation",
+        label: "Reconciliation",
+        description: "DB, bot and exchange positions agree",
+        status: state.reconcileStatus === "MISMATCH" ? "error" :
+                state.reconcileStatus !== "OK" || reconcileStale ? "warning" : "ok",
+        value: !state.reconciledAt ? "Not run yet" :
+               reconcileStale ? "Stale" :
+               state.reconcileStatus === "OK" ? null : state.reconcileDetail,
       },
       {
         id: "trades",
@@ -585,6 +1021,34 @@ export class DatabaseStorage implements IStorage {
     
     return this.getHealth();
   }
+
+  async enqueueCommand(command: ControlAction): Promise<BotCommand> {
+    const [newCommand] = await db.insert(botCommands).values({
+      command,
+      status: "PENDING",
+    }).returning();
+    return this.formatCommand(newCommand);
+  }
+
+  async getCommands(limit = 20): Promise<BotCommand[]> {
+    const results = await db.select()
+      .from(botCommands)
+      .orderBy(desc(botCommands.id))
+      .limit(limit);
+    
+    return results.map(c => this.formatCommand(c));
+  }
+
+  private formatCommand(command: typeof botCommands.$inferSelect): BotCommand {
+    return {
+      id: command.id,
+      command: command.command,
+      status: command.status,
+      result: command.result,
+      createdAt: command.createdAt?.toISOString() || new Date().toISOString(),
+      acknowledgedAt: command.acknowledgedAt?.toISOString() || null,
+    };
+  }
 }
 
 export const storage = new DatabaseStorage();
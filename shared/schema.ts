@@ -1,4 +1,4 @@
-import { pgTable, text, integer, real, boolean, timestamp, varchar, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, real, boolean, timestamp, varchar, serial, jsonb, bigint } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,12 +12,23 @@ export const botStates = pgTable("bot_states", {
   tradingMode: text("trading_mode").notNull().default("paper"),
   paperStartDate: timestamp("paper_start_date"),
   paperTradesCount: integer("paper_trades_count").notNull().default(0),
+  runningConfigVersion: integer("running_config_version"),
+  // Set while PAUSED_RISK_LIMIT: which limit tripped and when trading resumes on its own
+  pauseReason: text("pause_reason"),
+  resumeAt: timestamp("resume_at"),
+  // Outcome of the last position reconciliation pass
+  reconciledAt: timestamp("reconciled_at"),
+  reconcileStatus: text("reconcile_status"),
+  reconcileDetail: text("reconcile_detail"),
 });
 
-// Metrics Table (stores daily snapshots)
+// Metrics Table (one row per trading day; the latest row is today)
 export const metrics = pgTable("metrics", {
   id: serial("id").primaryKey(),
   date: timestamp("date").defaultNow(),
+  // YYYY-MM-DD in the configured trading-day timezone; closedAt is set at the boundary
+  tradingDay: text("trading_day").unique(),
+  closedAt: timestamp("closed_at"),
   equityUsdt: real("equity_usdt").notNull().default(0),
   equityZar: real("equity_zar").notNull().default(0),
   todayPnlUsdt: real("today_pnl_usdt").notNull().default(0),
@@ -45,13 +56,55 @@ export const trades = pgTable("trades", {
   duration: integer("duration"),
   fees: real("fees"),
   slippageEst: real("slippage_est"),
+  tpPct: real("tp_pct"),
+  slPct: real("sl_pct"),
+  stopMode: text("stop_mode").notNull().default("FIXED"),
+  volPct: real("vol_pct"),
+  // Time stop the trade was entered with, so a restart keeps it
+  timeStopSeconds: integer("time_stop_seconds"),
+  // Live only: reduce-only stop and take-profit orders resting on the exchange
+  stopOrderId: bigint("stop_order_id", { mode: "number" }),
+  tpOrderId: bigint("tp_order_id", { mode: "number" }),
+  // How the entry was worked: mode used (e.g. POST_ONLY+MARKET), share of the
+  // size filled by the limit order and time from first order to last fill
+  entryMode: text("entry_mode"),
+  fillRatio: real("fill_ratio"),
+  timeToFillMs: integer("time_to_fill_ms"),
+  // Share of the risk-based size cut by margin limits and the limit that bound
+  // (MARGIN_CAP, BALANCE or BRACKET); null when the full size was taken
+  sizeReductionPct: real("size_reduction_pct"),
+  sizeLimit: text("size_limit"),
+  // fees is the commission in USDT across every fill; pnl_usdt is realized PnL
+  // before commission (as Binance reports it, live) and net_pnl_usdt after it
+  netPnlUsdt: real("net_pnl_usdt"),
+  commissionAsset: text("commission_asset"),
   exitReason: text("exit_reason"),
   entryTimestamp: timestamp("entry_timestamp").defaultNow(),
   exitTimestamp: timestamp("exit_timestamp"),
   setupId: text("setup_id"),
+  variant: text("variant").notNull().default("REVERSION"),
+  strategyId: text("strategy_id").notNull().default("liquidation-reversion"),
   isOpen: boolean("is_open").notNull().default(true),
 });
 
+// Trade Fills Table (entry and every partial or final exit of a trade)
+export const tradeFills = pgTable("trade_fills", {
+  id: serial("id").primaryKey(),
+  tradeId: integer("trade_id").notNull(),
+  side: text("side").notNull(),
+  reason: text("reason").notNull(),
+  price: real("price").notNull(),
+  quantity: real("quantity").notNull(),
+  pnlUsdt: real("pnl_usdt"),
+  fees: real("fees").notNull().default(0),
+  // Commission in the asset Binance charged it in (fees is its USDT value)
+  commission: real("commission").notNull().default(0),
+  commissionAsset: text("commission_asset").notNull().default("USDT"),
+  // Live only: the exchange order the fill came from
+  orderId: bigint("order_id", { mode: "number" }),
+  timestamp: timestamp("timestamp").defaultNow(),
+});
+
 // Market Events Table (liquidation signals)
 export const marketEvents = pgTable("market_events", {
   id: serial("id").primaryKey(),
@@ -59,7 +112,12 @@ export const marketEvents = pgTable("market_events", {
   symbol: text("symbol").notNull(),
   liquidationUsd: real("liquidation_usd").notNull(),
   liquidationSide: text("liquidation_side").notNull(),
+  liquidationCount: integer("liquidation_count").notNull().default(1),
+  cascadeDurationMs: integer("cascade_duration_ms").notNull().default(0),
+  cascadeVwap: real("cascade_vwap"),
   volumeMult: real("volume_mult").notNull(),
+  recentVolumeUsd: real("recent_volume_usd").notNull().default(0),
+  baselineVolumeUsd: real("baseline_volume_usd").notNull().default(0),
   spreadBps: real("spread_bps").notNull(),
   priceDelta: real("price_delta").notNull().default(0),
   exhaustionCandles: integer("exhaustion_candles").notNull().default(0),
@@ -68,6 +126,22 @@ export const marketEvents = pgTable("market_events", {
   spreadOk: boolean("spread_ok").notNull().default(false),
   momentumOk: boolean("momentum_ok").notNull().default(false),
   exhaustionOk: boolean("exhaustion_ok").notNull().default(false),
+  breakoutOk: boolean("breakout_ok").notNull().default(false),
+  bookImbalance: real("book_imbalance"),
+  depthBidUsd: real("depth_bid_usd"),
+  depthAskUsd: real("depth_ask_usd"),
+  imbalanceOk: boolean("imbalance_ok").notNull().default(false),
+  depthOk: boolean("depth_ok").notNull().default(false),
+  fundingRate: real("funding_rate"),
+  fundingSecondsLeft: integer("funding_seconds_left"),
+  oiChangePct: real("oi_change_pct"),
+  fundingOk: boolean("funding_ok").notNull().default(false),
+  oiDropOk: boolean("oi_drop_ok").notNull().default(false),
+  fundingTimeOk: boolean("funding_time_ok").notNull().default(false),
+  score: real("score"),
+  scoreContributions: jsonb("score_contributions"),
+  variant: text("variant").notNull().default("REVERSION"),
+  strategyId: text("strategy_id").notNull().default("liquidation-reversion"),
   passed: boolean("passed").notNull().default(false),
   rejectionReason: text("rejection_reason"),
 });
@@ -84,6 +158,7 @@ export const logEntries = pgTable("log_entries", {
 // Config Table
 export const configs = pgTable("configs", {
   id: serial("id").primaryKey(),
+  strategyId: text("strategy_id").notNull().default("liquidation-reversion"),
   version: integer("version").notNull().default(1),
   mode: text("mode").notNull().default("paper"),
   symbols: text("symbols").notNull().default("BTCUSDT,ETHUSDT"),
@@ -93,22 +168,88 @@ export const configs = pgTable("configs", {
   maxTradesPerDay: integer("max_trades_per_day").notNull().default(10),
   maxConsecutiveLosses: integer("max_consecutive_losses").notNull().default(3),
   pauseAfterLossesMinutes: integer("pause_after_losses_minutes").notNull().default(60),
+  tradingDayTimezone: text("trading_day_timezone").notNull().default("UTC"),
+  // What the position reconciler does about a mismatch: ALERT, ADOPT or CLOSE
+  reconcilePolicy: text("reconcile_policy").notNull().default("ALERT"),
+  reconcileIntervalSeconds: integer("reconcile_interval_seconds").notNull().default(30),
   maxMarginPerTradePct: real("max_margin_per_trade_pct").notNull().default(0.20),
+  maxConcurrentPositions: integer("max_concurrent_positions").notNull().default(2),
+  maxTotalNotionalPct: real("max_total_notional_pct").notNull().default(1.5),
+  maxTotalMarginPct: real("max_total_margin_pct").notNull().default(0.6),
+  maxCorrelatedPositions: integer("max_correlated_positions").notNull().default(1),
   liqWindowSeconds: integer("liq_window_seconds").notNull().default(60),
   volumeLookback: integer("volume_lookback").notNull().default(20),
   volumeMult: real("volume_mult").notNull().default(2.0),
   exhaustionCandles: integer("exhaustion_candles").notNull().default(2),
   symbolCooldownSeconds: integer("symbol_cooldown_seconds").notNull().default(300),
+  depthWithinBps: integer("depth_within_bps").notNull().default(10),
+  minDepthUsd: real("min_depth_usd").notNull().default(250000),
+  minBookImbalance: real("min_book_imbalance").notNull().default(0),
+  maxFundingRate: real("max_funding_rate").notNull().default(0.0005),
+  minOiDropPct: real("min_oi_drop_pct").notNull().default(0.002),
+  fundingBufferSeconds: integer("funding_buffer_seconds").notNull().default(300),
   tpPct: real("tp_pct").notNull().default(0.0035),
   slPct: real("sl_pct").notNull().default(0.0045),
   timeStopSeconds: integer("time_stop_seconds").notNull().default(150),
   entryFillTimeoutMs: integer("entry_fill_timeout_ms").notNull().default(800),
   useMarketIfNotFilled: boolean("use_market_if_not_filled").notNull().default(true),
+  // MARKET, IOC (limit crossing the touch by entryOffsetBps) or POST_ONLY (resting entryOffsetBps behind it)
+  entryMode: text("entry_mode").notNull().default("MARKET"),
+  entryOffsetBps: real("entry_offset_bps").notNull().default(2),
+  // Paper fills pay these shares of notional as commission (post-only entries
+  // are maker, everything else taker)
+  paperMakerFeePct: real("paper_maker_fee_pct").notNull().default(0.0002),
+  paperTakerFeePct: real("paper_taker_fee_pct").notNull().default(0.0005),
   enableSol: boolean("enable_sol").notNull().default(false),
   enableMomentumVariant: boolean("enable_momentum_variant").notNull().default(false),
+  enableBookFilter: boolean("enable_book_filter").notNull().default(false),
+  enablePositioningFilter: boolean("enable_positioning_filter").notNull().default(false),
+  scoringEnabled: boolean("scoring_enabled").notNull().default(false),
+  scoreThreshold: real("score_threshold").notNull().default(0.7),
+  scoreSizeScaling: boolean("score_size_scaling").notNull().default(false),
+  criterionWeights: jsonb("criterion_weights"),
+  momentumTpPct: real("momentum_tp_pct").notNull().default(0.005),
+  momentumSlPct: real("momentum_sl_pct").notNull().default(0.003),
+  momentumTimeStopSeconds: integer("momentum_time_stop_seconds").notNull().default(120),
+  breakevenEnabled: boolean("breakeven_enabled").notNull().default(false),
+  breakevenTriggerPct: real("breakeven_trigger_pct").notNull().default(0.002),
+  trailMode: text("trail_mode").notNull().default("OFF"),
+  trailTriggerPct: real("trail_trigger_pct").notNull().default(0.0025),
+  trailPct: real("trail_pct").notNull().default(0.002),
+  trailAtrMult: real("trail_atr_mult").notNull().default(1.5),
+  scaleOutEnabled: boolean("scale_out_enabled").notNull().default(false),
+  tp1Pct: real("tp1_pct").notNull().default(0.0025),
+  tp1ClosePct: real("tp1_close_pct").notNull().default(0.5),
+  volMode: text("vol_mode").notNull().default("OFF"),
+  volStopMult: real("vol_stop_mult").notNull().default(3),
+  volSlFloorPct: real("vol_sl_floor_pct").notNull().default(0.002),
+  volSlCapPct: real("vol_sl_cap_pct").notNull().default(0.01),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Symbol Settings Table (per-symbol thresholds; null overrides use the config value)
+export const symbolSettings = pgTable("symbol_settings", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull().unique(),
+  enabled: boolean("enabled").notNull().default(true),
+  minLiqUsd: real("min_liq_usd").notNull(),
+  maxSpreadBps: real("max_spread_bps").notNull(),
+  cooldownSeconds: integer("cooldown_seconds"),
+  tpPct: real("tp_pct"),
+  slPct: real("sl_pct"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Bot Commands Table (dashboard -> bot control channel)
+export const botCommands = pgTable("bot_commands", {
+  id: serial("id").primaryKey(),
+  command: text("command").notNull(),
+  status: text("status").notNull().default("PENDING"),
+  result: text("result"),
+  createdAt: timestamp("created_at").defaultNow(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+});
+
 // Health Check Table
 export const healthChecks = pgTable("health_checks", {
   id: serial("id").primaryKey(),
@@ -123,10 +264,13 @@ export const healthChecks = pgTable("health_checks", {
 export const insertBotStateSchema = createInsertSchema(botStates).omit({ id: true });
 export const insertMetricsSchema = createInsertSchema(metrics).omit({ id: true });
 export const insertTradeSchema = createInsertSchema(trades).omit({ id: true });
+export const insertTradeFillSchema = createInsertSchema(tradeFills).omit({ id: true });
 export const insertMarketEventSchema = createInsertSchema(marketEvents).omit({ id: true });
 export const insertLogEntrySchema = createInsertSchema(logEntries).omit({ id: true });
 export const insertConfigSchema = createInsertSchema(configs).omit({ id: true });
 export const insertHealthCheckSchema = createInsertSchema(healthChecks).omit({ id: true });
+export const insertBotCommandSchema = createInsertSchema(botCommands).omit({ id: true });
+export const insertSymbolSettingsSchema = createInsertSchema(symbolSettings).omit({ id: true });
 
 // Types
 export type BotStateRecord = typeof botStates.$inferSelect;
@@ -138,6 +282,9 @@ export type InsertMetrics = z.infer<typeof insertMetricsSchema>;
 export type TradeRecord = typeof trades.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 
+export type TradeFillRecord = typeof tradeFills.$inferSelect;
+export type InsertTradeFill = z.infer<typeof insertTradeFillSchema>;
+
 export type MarketEventRecord = typeof marketEvents.$inferSelect;
 export type InsertMarketEvent = z.infer<typeof insertMarketEventSchema>;
 
@@ -150,6 +297,12 @@ export type InsertConfig = z.infer<typeof insertConfigSchema>;
 export type HealthCheckRecord = typeof healthChecks.$inferSelect;
 export type InsertHealthCheck = z.infer<typeof insertHealthCheckSchema>;
 
+export type BotCommandRecord = typeof botCommands.$inferSelect;
+export type InsertBotCommand = z.infer<typeof insertBotCommandSchema>;
+
+export type SymbolSettingsRecord = typeof symbolSettings.$inferSelect;
+export type InsertSymbolSettings = z.infer<typeof insertSymbolSettingsSchema>;
+
 // Zod Enums for validation
 export const BotStateEnum = z.enum([
   "BOOTING",
@@ -161,18 +314,125 @@ export const BotStateEnum = z.enum([
 ]);
 export type BotStateType = z.infer<typeof BotStateEnum>;
 
+// Consecutive-loss pauses expire after pause_after_consecutive_losses_minutes,
+// daily-loss pauses at the next trading day
+export const PauseReasonEnum = z.enum(["CONSECUTIVE_LOSSES", "DAILY_LOSS"]);
+export type PauseReason = z.infer<typeof PauseReasonEnum>;
+
 export const TradingModeEnum = z.enum(["paper", "live"]);
 export type TradingMode = z.infer<typeof TradingModeEnum>;
 
 export const SymbolEnum = z.enum(["BTCUSDT", "ETHUSDT", "SOLUSDT"]);
 export type Symbol = z.infer<typeof SymbolEnum>;
 
+// Per-symbol thresholds as edited on the Config page. Null overrides fall
+// back to the global cooldown / reversion TP / SL.
+export const symbolSettingSchema = z.object({
+  symbol: SymbolEnum,
+  enabled: z.boolean(),
+  min_liq_usd: z.number().min(50000).max(50000000),
+  max_spread_bps: z.number().min(0.5).max(20),
+  cooldown_seconds: z.number().int().min(60).max(600).nullable(),
+  tp_pct: z.number().min(0.0025).max(0.01).nullable(),
+  sl_pct: z.number().min(0.002).max(0.01).nullable(),
+});
+export type SymbolSetting = z.infer<typeof symbolSettingSchema>;
+
+export const DEFAULT_SYMBOL_SETTINGS: SymbolSetting[] = [
+  { symbol: "BTCUSDT", enabled: true, min_liq_usd: 2500000, max_spread_bps: 3, cooldown_seconds: null, tp_pct: null, sl_pct: null },
+  { symbol: "ETHUSDT", enabled: true, min_liq_usd: 1250000, max_spread_bps: 4, cooldown_seconds: null, tp_pct: null, sl_pct: null },
+  { symbol: "SOLUSDT", enabled: true, min_liq_usd: 500000, max_spread_bps: 5, cooldown_seconds: null, tp_pct: null, sl_pct: null },
+];
+
 export const TradeSideEnum = z.enum(["LONG", "SHORT"]);
 export type TradeSide = z.infer<typeof TradeSideEnum>;
 
-export const ExitReasonEnum = z.enum(["TP", "SL", "TIME_STOP", "MANUAL", "FLATTEN"]);
+// Strategy that owns the dashboard-edited config row and untagged history
+export const DEFAULT_STRATEGY_ID = "liquidation-reversion";
+
+export const TradeVariantEnum = z.enum(["REVERSION", "MOMENTUM"]);
+export type TradeVariant = z.infer<typeof TradeVariantEnum>;
+
+export const ExitReasonEnum = z.enum(["TP", "SL", "TRAIL", "BREAKEVEN", "TIME_STOP", "MANUAL", "FLATTEN", "LIQUIDATION"]);
 export type ExitReason = z.infer<typeof ExitReasonEnum>;
 
+// ENTRY opens the trade, TP1 is the scale-out partial, anything else is the final exit
+export const FillReasonEnum = z.enum(["ENTRY", "TP1", ...ExitReasonEnum.options]);
+export type FillReason = z.infer<typeof FillReasonEnum>;
+
+// How the stop trails price once in profit: a fixed percentage or an ATR multiple
+export const TrailModeEnum = z.enum(["OFF", "PCT", "ATR"]);
+export type TrailMode = z.infer<typeof TrailModeEnum>;
+
+// Where the stop distance comes from: fixed sl_pct, or a multiple of 1m ATR / realized volatility
+export const VolModeEnum = z.enum(["OFF", "ATR", "REALIZED"]);
+export type VolMode = z.infer<typeof VolModeEnum>;
+
+// A failed hard criterion rejects the signal whatever the score
+export const criterionWeightSchema = z.object({
+  weight: z.number().min(0).max(10),
+  hard: z.boolean(),
+});
+export type CriterionWeight = z.infer<typeof criterionWeightSchema>;
+
+// One weight per signal criterion; the keys are also market_events.score_contributions keys
+export const criterionWeightsSchema = z.object({
+  liq_size: criterionWeightSchema,
+  volume: criterionWeightSchema,
+  spread: criterionWeightSchema,
+  momentum: criterionWeightSchema,
+  exhaustion: criterionWeightSchema,
+  breakout: criterionWeightSchema,
+  depth: criterionWeightSchema,
+  imbalance: criterionWeightSchema,
+  funding: criterionWeightSchema,
+  funding_time: criterionWeightSchema,
+  oi_drop: criterionWeightSchema,
+});
+
+export const CriterionKeyEnum = criterionWeightsSchema.keyof();
+export type CriterionKey = z.infer<typeof CriterionKeyEnum>;
+
+export const DEFAULT_CRITERION_WEIGHTS: Record<CriterionKey, CriterionWeight> = {
+  liq_size: { weight: 3, hard: false },
+  volume: { weight: 2, hard: false },
+  spread: { weight: 1, hard: true },
+  momentum: { weight: 1, hard: false },
+  exhaustion: { weight: 2, hard: false },
+  breakout: { weight: 2, hard: true },
+  depth: { weight: 1, hard: false },
+  imbalance: { weight: 1, hard: false },
+  funding: { weight: 1, hard: false },
+  funding_time: { weight: 1, hard: true },
+  oi_drop: { weight: 1, hard: false },
+};
+
+// Timezones offered for the trading-day boundary (local midnight starts a new day)
+export const TradingDayTimezoneEnum = z.enum([
+  "UTC",
+  "Africa/Johannesburg",
+  "Europe/London",
+  "America/New_York",
+  "Asia/Singapore",
+]);
+export type TradingDayTimezone = z.infer<typeof TradingDayTimezoneEnum>;
+
+// MARKET takes liquidity at once; IOC sends a limit crossing the touch by
+// entry_offset_bps and drops what does not fill; POST_ONLY rests
+// entry_offset_bps behind the touch for entry_fill_timeout_ms. The unfilled
+// part goes to market when use_market_if_not_filled is set.
+export const EntryModeEnum = z.enum(["MARKET", "IOC", "POST_ONLY"]);
+export type EntryMode = z.infer<typeof EntryModeEnum>;
+
+// How the reconciler resolves a mismatch between DB open trades, the bot's
+// open positions and exchange positions. ALERT only logs and blocks the symbol.
+export const ReconcilePolicyEnum = z.enum(["ALERT", "ADOPT", "CLOSE"]);
+export type ReconcilePolicy = z.infer<typeof ReconcilePolicyEnum>;
+
+// RESOLVED: the last pass found mismatches and the policy fixed them
+export const ReconcileStatusEnum = z.enum(["OK", "RESOLVED", "MISMATCH"]);
+export type ReconcileStatus = z.infer<typeof ReconcileStatusEnum>;
+
 export const LogLevelEnum = z.enum(["INFO", "WARN", "ERROR"]);
 export type LogLevel = z.infer<typeof LogLevelEnum>;
 
@@ -186,9 +446,16 @@ export interface BotState {
   tradingMode: string;
   paperStartDate: string | null;
   paperTradesCount: number;
+  runningConfigVersion: number | null;
+  pauseReason: PauseReason | null;
+  resumeAt: string | null;
+  reconciledAt: string | null;
+  reconcileStatus: ReconcileStatus | null;
+  reconcileDetail: string | null;
 }
 
 export interface Metrics {
+  tradingDay: string | null;
   equityUsdt: number;
   equityZar: number;
   todayPnlUsdt: number;
@@ -203,12 +470,29 @@ export interface Metrics {
   winRate: number;
 }
 
+// One closed (or the current) trading day from the metrics history
+export interface DailyMetrics {
+  tradingDay: string;
+  closedAt: string | null;
+  equityUsdt: number;
+  pnlUsdt: number;
+  pnlPct: number;
+  maxDrawdownPct: number;
+  tradeCount: number;
+  winCount: number;
+  lossCount: number;
+  winRate: number;
+}
+
 export interface OpenPosition {
   id: number;
   symbol: string;
   side: string;
   entryPrice: number;
   quantity: number;
+  notionalUsdt: number;
+  variant: string;
+  strategyId: string;
   unrealizedPnlUsdt: number;
   unrealizedPnlPct: number;
   entryTimestamp: string;
@@ -227,10 +511,52 @@ export interface Trade {
   duration: number | null;
   fees: number | null;
   slippageEst: number | null;
+  // TP/SL distances chosen at entry and what they were derived from
+  tpPct: number | null;
+  slPct: number | null;
+  stopMode: string;
+  volPct: number | null;
+  // Entry execution: mode used, share filled by the limit order, time to fill
+  entryMode: string | null;
+  fillRatio: number | null;
+  timeToFillMs: number | null;
+  // Share of the risk-based size cut by margin limits, and which limit
+  sizeReductionPct: number | null;
+  sizeLimit: string | null;
+  // Realized PnL after commission, and the asset commission was charged in
+  netPnlUsdt: number | null;
+  commissionAsset: string | null;
   exitReason: string | null;
   entryTimestamp: string;
   exitTimestamp: string | null;
   setupId: string | null;
+  variant: string;
+  strategyId: string;
+  fillCount: number;
+}
+
+export interface TradeFill {
+  id: number;
+  tradeId: number;
+  side: string;
+  reason: string;
+  price: number;
+  quantity: number;
+  pnlUsdt: number | null;
+  fees: number;
+  commission: number;
+  commissionAsset: string;
+  timestamp: string;
+}
+
+export interface VariantSummary {
+  variant: string;
+  trades: number;
+  // Wins, losses and PnL are net of commission
+  wins: number;
+  losses: number;
+  pnlUsdt: number;
+  winRate: number;
 }
 
 export interface MarketEvent {
@@ -239,7 +565,12 @@ export interface MarketEvent {
   symbol: string;
   liquidationUsd: number;
   liquidationSide: string;
+  liquidationCount: number;
+  cascadeDurationMs: number;
+  cascadeVwap: number | null;
   volumeMult: number;
+  recentVolumeUsd: number;
+  baselineVolumeUsd: number;
   spreadBps: number;
   priceDelta: number;
   exhaustionCandles: number;
@@ -248,6 +579,25 @@ export interface MarketEvent {
   spreadOk: boolean;
   momentumOk: boolean;
   exhaustionOk: boolean;
+  breakoutOk: boolean;
+  // Order book within depth_within_bps of mid; null before the book synced
+  bookImbalance: number | null;
+  depthBidUsd: number | null;
+  depthAskUsd: number | null;
+  imbalanceOk: boolean;
+  depthOk: boolean;
+  // Positioning at evaluation time; null when the data was not available yet
+  fundingRate: number | null;
+  fundingSecondsLeft: number | null;
+  oiChangePct: number | null;
+  fundingOk: boolean;
+  oiDropOk: boolean;
+  fundingTimeOk: boolean;
+  // Weighted share of criteria passed (0..1) and each criterion's part of it
+  score: number | null;
+  scoreContributions: Partial<Record<CriterionKey, number>> | null;
+  variant: string;
+  strategyId: string;
   passed: boolean;
   rejectionReason: string | null;
 }
@@ -271,28 +621,76 @@ export interface Config {
     max_trades_per_day: number;
     max_consecutive_losses: number;
     pause_after_consecutive_losses_minutes: number;
+    trading_day_timezone: TradingDayTimezone;
+    reconcile_policy: ReconcilePolicy;
+    reconcile_interval_seconds: number;
     max_margin_per_trade_pct: number;
+    max_concurrent_positions: number;
+    // Portfolio caps as a fraction of equity
+    max_total_notional_pct: number;
+    max_total_margin_pct: number;
+    // Same-direction positions allowed across BTC and ETH
+    max_correlated_positions: number;
   };
   signal: {
     liq_window_seconds: number;
-    min_liq_usd: Record<string, number>;
     volume_lookback: number;
     volume_mult: number;
     exhaustion_candles: number;
-    max_spread_bps: Record<string, number>;
     symbol_cooldown_seconds: number;
+    depth_within_bps: number;
+    min_depth_usd: number;
+    // Signed imbalance required in the trade's direction, -1..1
+    min_book_imbalance: number;
+    // Max funding rate tolerated against the trade, per 8h period
+    max_funding_rate: number;
+    min_oi_drop_pct: number;
+    funding_buffer_seconds: number;
   };
   execution: {
     tp_pct: number;
     sl_pct: number;
     time_stop_seconds: number;
+    entry_mode: EntryMode;
+    entry_offset_bps: number;
     entry_fill_timeout_ms: number;
     use_market_if_not_filled: boolean;
+    paper_maker_fee_pct: number;
+    paper_taker_fee_pct: number;
+    momentum_tp_pct: number;
+    momentum_sl_pct: number;
+    momentum_time_stop_seconds: number;
+    breakeven_enabled: boolean;
+    breakeven_trigger_pct: number;
+    trail_mode: TrailMode;
+    trail_trigger_pct: number;
+    trail_pct: number;
+    trail_atr_mult: number;
+    // Scale-out: close tp1_close_pct of the position at tp1_pct, the rest at tp_pct or the stop
+    scale_out_enabled: boolean;
+    tp1_pct: number;
+    tp1_close_pct: number;
+    vol_mode: VolMode;
+    vol_stop_mult: number;
+    vol_sl_floor_pct: number;
+    vol_sl_cap_pct: number;
   };
   feature_flags: {
     enable_sol: boolean;
     enable_momentum_variant: boolean;
+    enable_book_filter: boolean;
+    enable_positioning_filter: boolean;
   };
+  // Weighted scoring replaces all-or-nothing gating when enabled; soft
+  // criteria lower the score, hard ones still reject on their own
+  scoring: {
+    enabled: boolean;
+    threshold: number;
+    // Scale position size by the score (never above the risk-based size)
+    scale_size: boolean;
+    weights: Record<CriterionKey, CriterionWeight>;
+  };
+  symbol_settings: SymbolSetting[];
 }
 
 export interface HealthCheck {
@@ -312,9 +710,22 @@ export interface ChecklistItem {
 }
 
 // Control Actions
-export const controlActionSchema = z.enum(["pause", "resume", "flatten"]);
+// override resumes from a risk-limit pause and needs the operator token
+export const controlActionSchema = z.enum(["pause", "resume", "flatten", "override"]);
 export type ControlAction = z.infer<typeof controlActionSchema>;
 
+export const BotCommandStatusEnum = z.enum(["PENDING", "ACKNOWLEDGED", "FAILED"]);
+export type BotCommandStatus = z.infer<typeof BotCommandStatusEnum>;
+
+export interface BotCommand {
+  id: number;
+  command: string;
+  status: string;
+  result: string | null;
+  createdAt: string;
+  acknowledgedAt: string | null;
+}
+
 // Legacy User types (keeping for compatibility)
 export interface User {
   id: string;